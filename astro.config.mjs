@@ -14,9 +14,20 @@ import { defineConfig } from "astro/config";
 import tailwindcss from "@tailwindcss/vite";
 import mdx from "@astrojs/mdx";
 import sitemap from "@astrojs/sitemap";
+import linkChecker from "./src/integrations/link-checker";
+import { EXTERNAL_LINK_ALLOWLIST } from "./src/data/link-allowlist";
 
 // Load environment variables
 const SITE_URL = process.env.PUBLIC_SITE_URL || "http://localhost:4321";
+const PREVIEW_DRAFTS = ["true", "1"].includes(
+  (process.env.PUBLIC_PREVIEW_DRAFTS || "").toLowerCase()
+);
+
+// Link checker: "error" fails the build, "warn" only reports, "off" skips
+const LINK_CHECK = process.env.LINK_CHECK || "warn";
+const LINK_CHECK_ALLOWLIST = ["true", "1"].includes(
+  (process.env.LINK_CHECK_ALLOWLIST || "").toLowerCase()
+);
 
 export default defineConfig({
   // Site URL - used for sitemap, RSS, and canonical URLs
@@ -71,6 +82,10 @@ export default defineConfig({
         // Don't include 404 page in sitemap
         if (page.includes("/404")) return false;
 
+        // Preview builds contain drafts and scheduled entries; never
+        // advertise them to crawlers
+        if (PREVIEW_DRAFTS) return false;
+
         // If using production URL, include all pages
         if (SITE_URL && !SITE_URL.includes("localhost")) {
           return true;
@@ -80,6 +95,10 @@ export default defineConfig({
         return true;
       },
     }),
+    linkChecker({
+      mode: LINK_CHECK,
+      allowlist: LINK_CHECK_ALLOWLIST ? EXTERNAL_LINK_ALLOWLIST : undefined,
+    }),
   ],
 
   image: {
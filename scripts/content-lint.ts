@@ -0,0 +1,88 @@
+/**
+ * Content Lint CLI
+ *
+ * Lints every writing and work entry (see `src/utils/content-lint.ts`).
+ *
+ * Usage:
+ *   npm run content:lint            Human-readable report
+ *   npm run content:lint -- --json  Machine-readable report (JSON)
+ *
+ * Exits with code 1 when any error is found; warnings do not fail.
+ */
+
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { parse } from "yaml";
+import {
+  formatLintReport,
+  lintContent,
+  type LintCollection,
+  type LintEntry,
+} from "@/utils/content-lint";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ROOT = process.cwd();
+
+const COLLECTIONS: readonly LintCollection[] = ["writing", "work"];
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * List MDX files under a directory recursively
+ */
+function listMdxFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) => {
+    const path = join(dir, item.name);
+    if (item.isDirectory()) return listMdxFiles(path);
+    return item.name.endsWith(".mdx") ? [path] : [];
+  });
+}
+
+/**
+ * Read an MDX file into a lint entry
+ */
+function loadEntry(collection: LintCollection, path: string): LintEntry {
+  const source = readFileSync(path, "utf-8");
+  const match = FRONTMATTER_PATTERN.exec(source);
+  const frontmatter = match?.[1] ?? "";
+  const data: unknown = match ? parse(frontmatter) : {};
+  const base = join(ROOT, "src", "content", collection);
+
+  return {
+    collection,
+    id: relative(base, path)
+      .replace(/\\/g, "/")
+      .replace(/\.mdx$/, ""),
+    file: relative(ROOT, path).replace(/\\/g, "/"),
+    data: data && typeof data === "object" ? (data as LintEntry["data"]) : {},
+    frontmatter,
+    body: match ? source.slice(match[0].length) : source,
+    bodyLine: match ? match[0].split("\n").length : 1,
+  };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+const entries = COLLECTIONS.flatMap((collection) =>
+  listMdxFiles(join(ROOT, "src", "content", collection)).map((path) =>
+    loadEntry(collection, path)
+  )
+);
+const report = lintContent(entries);
+
+console.log(
+  process.argv.includes("--json")
+    ? JSON.stringify(report, null, 2)
+    : formatLintReport(report)
+);
+
+process.exitCode = report.errors > 0 ? 1 : 0;
@@ -0,0 +1,233 @@
+/**
+ * New Content CLI
+ *
+ * Scaffolds a writing post or work project as a draft MDX file
+ * (see `src/utils/scaffold.ts`).
+ *
+ * Usage:
+ *   npm run new:post
+ *   npm run new:project
+ *
+ * Tags autocomplete with Tab; unknown tags and taken slugs are refused.
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { createInterface, type Interface } from "node:readline";
+import { stdin as input, stdout as output } from "node:process";
+import { parse } from "yaml";
+import {
+  buildScaffold,
+  getContentDir,
+  getScaffoldPath,
+  parseDateInput,
+  parseTagInput,
+  suggestSlug,
+  type ScaffoldType,
+} from "@/utils/scaffold";
+import {
+  getSuggestedTags,
+  searchTags,
+  validateTagIds,
+  type TagId,
+} from "@/config/tags.config";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ROOT = process.cwd();
+
+const SCAFFOLD_TYPES: readonly ScaffoldType[] = ["post", "project"];
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A parsed answer, or the reason it was refused */
+type Answer<T> = { readonly value: T } | { readonly error: string };
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+/**
+ * Complete the last tag being typed from the tag registry
+ */
+function completeTags(line: string): [string[], string] {
+  const current = line.split(/[\s,]+/).pop() ?? "";
+  const matches = searchTags(current)
+    .map((tag) => tag.id)
+    .filter((id) => id.startsWith(current.toLowerCase()));
+  return [matches, current];
+}
+
+/**
+ * Accept an answer unless there is an error
+ */
+function check(value: string, error: string | null): Answer<string> {
+  return error ? { error } : { value };
+}
+
+/**
+ * Line-based prompt that also works with piped input
+ */
+function createPrompt(rl: Interface) {
+  const lines = rl[Symbol.asyncIterator]();
+
+  /** Ask until the answer parses, returning the parsed value */
+  return async function ask<T>(
+    question: string,
+    parseAnswer: (answer: string) => Answer<T>,
+    fallback = ""
+  ): Promise<T> {
+    for (;;) {
+      const hint = fallback ? ` (${fallback})` : "";
+      rl.setPrompt(`${question}${hint}: `);
+      rl.prompt();
+
+      const next = await lines.next();
+      if (next.done) {
+        throw new Error("Input ended before all questions were answered");
+      }
+
+      const answer = parseAnswer(next.value.trim() || fallback);
+      if ("value" in answer) return answer.value;
+      console.log(`  ✗ ${answer.error}`);
+    }
+  };
+}
+
+/**
+ * List content files (.md and .mdx) under a directory recursively
+ */
+function listContentFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) => {
+    const path = join(dir, item.name);
+    if (item.isDirectory()) return listContentFiles(path);
+    return /\.mdx?$/.test(item.name) ? [path] : [];
+  });
+}
+
+/**
+ * Collection ids in use, as the content loader derives them: the
+ * frontmatter `slug` when set, else the path without its extension
+ */
+function getCollectionIds(type: ScaffoldType): Set<string> {
+  const dir = join(ROOT, getContentDir(type));
+
+  return new Set(
+    listContentFiles(dir).map((path) => {
+      const match = FRONTMATTER_PATTERN.exec(readFileSync(path, "utf-8"));
+      const data: unknown = match ? parse(match[1] ?? "") : null;
+      const slug =
+        data && typeof data === "object" && "slug" in data ? data.slug : null;
+
+      return typeof slug === "string"
+        ? slug
+        : relative(dir, path)
+            .replace(/\\/g, "/")
+            .replace(/\.mdx?$/, "")
+            .toLowerCase();
+    })
+  );
+}
+
+/**
+ * Check whether a slug is already used by an entry or a file
+ */
+function getSlugError(type: ScaffoldType, slug: string): string | null {
+  if (!slug) return "Slug cannot be empty";
+  if (getCollectionIds(type).has(slug)) {
+    return `"${slug}" is already used in ${getContentDir(type)}`;
+  }
+  if (existsSync(join(ROOT, getScaffoldPath(type, slug)))) {
+    return `"${slug}" already exists (${getScaffoldPath(type, slug)})`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(): Promise<void> {
+  const type = process.argv[2] as ScaffoldType;
+  if (!SCAFFOLD_TYPES.includes(type)) {
+    console.error(`Usage: tsx scripts/new-content.ts <post|project>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const rl = createInterface({ input, output, completer: completeTags });
+  const ask = createPrompt(rl);
+
+  try {
+    const title = await ask("Title", (value) =>
+      check(value, value ? null : "Title cannot be empty")
+    );
+    const slug = await ask(
+      "Slug",
+      (value) => check(value, getSlugError(type, value)),
+      suggestSlug(title)
+    );
+
+    const tags = await ask(
+      "Tags (comma separated, Tab completes)",
+      (value): Answer<string[]> => {
+        const tagIds = parseTagInput(value);
+        const { invalid } = validateTagIds(tagIds);
+        return invalid.length > 0
+          ? { error: `Unknown tags: ${invalid.join(", ")}` }
+          : { value: tagIds };
+      }
+    );
+    const suggestions = getSuggestedTags(tags as TagId[]);
+    if (suggestions.length > 0) {
+      console.log(
+        `  Related tags: ${suggestions.map((tag) => tag.id).join(", ")}`
+      );
+    }
+
+    const date =
+      type === "post"
+        ? await ask(
+            "Date",
+            (value): Answer<string> => {
+              const parsed = parseDateInput(value);
+              return parsed ? { value: parsed } : { error: "Invalid date" };
+            },
+            new Date().toISOString().slice(0, 10)
+          )
+        : await ask(
+            "Year",
+            (value) =>
+              check(value, /^\d{4}$/.test(value) ? null : "Use a 4-digit year"),
+            String(new Date().getFullYear())
+          );
+
+    const summary = await ask(
+      type === "post" ? "Excerpt" : "Description",
+      (value) => check(value, value ? null : "Cannot be empty")
+    );
+
+    const result = buildScaffold({ type, title, slug, tags, date, summary });
+    if (!result.success) {
+      console.error(`✗ ${result.error}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    // "wx" refuses to overwrite a file created in the meantime
+    writeFileSync(join(ROOT, result.path), result.content, { flag: "wx" });
+    console.log(`✓ Created ${result.path} (draft: true)`);
+  } finally {
+    rl.close();
+  }
+}
+
+await main();
@@ -0,0 +1,95 @@
+/**
+ * Tag Suggestion CLI
+ *
+ * Reports likely missing tags per entry and recurring keywords without a
+ * registry tag (see `src/utils/tag-suggestions.ts`). Runs entirely
+ * locally; nothing is written.
+ *
+ * Usage:
+ *   npm run tags:suggest            Human-readable report
+ *   npm run tags:suggest -- --json  Machine-readable report (JSON)
+ */
+
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { parse } from "yaml";
+import {
+  formatTagSuggestionReport,
+  suggestTags,
+  type TagSuggestionEntry,
+} from "@/utils/tag-suggestions";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ROOT = process.cwd();
+
+const COLLECTIONS = ["writing", "work"] as const;
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * List MDX files under a directory recursively
+ */
+function listMdxFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) => {
+    const path = join(dir, item.name);
+    if (item.isDirectory()) return listMdxFiles(path);
+    return item.name.endsWith(".mdx") ? [path] : [];
+  });
+}
+
+/**
+ * Read a frontmatter field as a string
+ */
+function getString(data: Record<string, unknown>, key: string): string {
+  const value = data[key];
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Read an MDX file into a suggestion entry
+ */
+function loadEntry(collection: string, path: string): TagSuggestionEntry {
+  const source = readFileSync(path, "utf-8");
+  const match = FRONTMATTER_PATTERN.exec(source);
+  const parsed: unknown = match ? parse(match[1] ?? "") : {};
+  const data =
+    parsed && typeof parsed === "object"
+      ? (parsed as Record<string, unknown>)
+      : {};
+  const id = relative(join(ROOT, "src", "content", collection), path)
+    .replace(/\\/g, "/")
+    .replace(/\.mdx$/, "");
+
+  return {
+    key: `${collection}/${id}`,
+    file: relative(ROOT, path).replace(/\\/g, "/"),
+    title: getString(data, "title"),
+    summary: getString(data, "excerpt") || getString(data, "description"),
+    body: match ? source.slice(match[0].length) : source,
+    tags: Array.isArray(data["tags"]) ? data["tags"].map(String) : [],
+  };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+const entries = COLLECTIONS.flatMap((collection) =>
+  listMdxFiles(join(ROOT, "src", "content", collection)).map((path) =>
+    loadEntry(collection, path)
+  )
+);
+const report = suggestTags(entries);
+
+console.log(
+  process.argv.includes("--json")
+    ? JSON.stringify(report, null, 2)
+    : formatTagSuggestionReport(report)
+);
@@ -0,0 +1,145 @@
+/**
+ * Tag Migration CLI
+ *
+ * Renames, merges and deprecates tags (see `src/utils/tag-migration.ts`).
+ *
+ * Usage:
+ *   npm run tags -- rename <from> <to> [--dry-run]
+ *   npm run tags -- merge <from> <into> [--dry-run]
+ *   npm run tags -- deprecate <id> [--dry-run]
+ *
+ * Rename and merge rewrite `tags` frontmatter across `src/content/**` and
+ * keep the old id as an alias in `TAG_REGISTRY`.
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { format, resolveConfig } from "prettier";
+import {
+  TagMigrationError,
+  deprecateRegistryTag,
+  mergeRegistryTag,
+  renameRegistryTag,
+  rewriteFrontmatterTags,
+} from "@/utils/tag-migration";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ROOT = process.cwd();
+
+const REGISTRY_FILE = join(ROOT, "src", "config", "tags.config.ts");
+
+const CONTENT_DIR = join(ROOT, "src", "content");
+
+/** Code that may mention tag ids directly (reported, not rewritten) */
+const SOURCE_DIR = join(ROOT, "src");
+
+const USAGE = `Usage:
+  npm run tags -- rename <from> <to> [--dry-run]
+  npm run tags -- merge <from> <into> [--dry-run]
+  npm run tags -- deprecate <id> [--dry-run]`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * List files under a directory recursively
+ */
+function listFiles(dir: string, extensions: readonly string[]): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) => {
+    const path = join(dir, item.name);
+    if (item.isDirectory()) return listFiles(path, extensions);
+    return extensions.some((ext) => item.name.endsWith(ext)) ? [path] : [];
+  });
+}
+
+/**
+ * Format with the repo's Prettier config before writing
+ */
+async function writeFormatted(path: string, source: string): Promise<void> {
+  const options = await resolveConfig(path);
+  writeFileSync(path, await format(source, { ...options, filepath: path }));
+}
+
+/**
+ * Find code outside the registry that mentions a tag id as a string
+ */
+function findCodeReferences(id: string): string[] {
+  const pattern = new RegExp(`["'\`]${id}["'\`]`);
+  return listFiles(SOURCE_DIR, [".ts", ".astro"])
+    .filter((path) => path !== REGISTRY_FILE)
+    .filter((path) => pattern.test(readFileSync(path, "utf-8")))
+    .map((path) => relative(ROOT, path));
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const [command, from, to] = args.filter((arg) => !arg.startsWith("--"));
+
+  if (
+    !from ||
+    (command === "deprecate" ? to : !to) ||
+    !["rename", "merge", "deprecate"].includes(command ?? "")
+  ) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const registry = readFileSync(REGISTRY_FILE, "utf-8");
+  const updatedRegistry =
+    command === "rename"
+      ? renameRegistryTag(registry, from, to!)
+      : command === "merge"
+        ? mergeRegistryTag(registry, from, to!)
+        : deprecateRegistryTag(registry, from);
+
+  const contentChanges = to
+    ? listFiles(CONTENT_DIR, [".mdx", ".md"]).flatMap((path) => {
+        const updated = rewriteFrontmatterTags(
+          readFileSync(path, "utf-8"),
+          from,
+          to
+        );
+        return updated === null ? [] : [{ path, updated }];
+      })
+    : [];
+
+  const prefix = dryRun ? "[dry run] Would update" : "Updated";
+  if (updatedRegistry !== registry) {
+    console.log(`${prefix} ${relative(ROOT, REGISTRY_FILE)}`);
+  }
+  for (const { path } of contentChanges) {
+    console.log(`${prefix} ${relative(ROOT, path)}`);
+  }
+
+  if (!dryRun) {
+    await writeFormatted(REGISTRY_FILE, updatedRegistry);
+    for (const { path, updated } of contentChanges) {
+      await writeFormatted(path, updated);
+    }
+  }
+
+  const references = to ? findCodeReferences(from) : [];
+  if (references.length > 0) {
+    console.log(
+      `\n"${from}" still appears in code (resolves via its alias, but consider updating):\n  ${references.join("\n  ")}`
+    );
+  }
+}
+
+try {
+  await main();
+} catch (error) {
+  if (!(error instanceof TagMigrationError)) throw error;
+  console.error(`✗ ${error.message}`);
+  process.exitCode = 1;
+}
@@ -171,6 +171,13 @@ export const NAVIGATION_CONFIG = {
 export const CONTENT_CONFIG = {
   // Reading Time
   wordsPerMinute: getEnvNumber("PUBLIC_CONTENT_WORDS_PER_MINUTE", 200),
+  readingTime: {
+    codeWordsPerMinute: getEnvNumber(
+      "PUBLIC_CONTENT_CODE_WORDS_PER_MINUTE",
+      100
+    ),
+    secondsPerImage: getEnvNumber("PUBLIC_CONTENT_SECONDS_PER_IMAGE", 12),
+  },
 
   // Excerpt
   excerptLength: getEnvNumber("PUBLIC_CONTENT_EXCERPT_LENGTH", 160),
@@ -190,9 +197,39 @@ export const CONTENT_CONFIG = {
     tagsMax: getEnvNumber("PUBLIC_CONTENT_TAGS_MAX", 10),
   },
 
+  // Pagination (writing and work indexes)
+  pagination: {
+    pageSize: getEnvNumber("PUBLIC_CONTENT_PAGE_SIZE", 5),
+  },
+
+  // Table of Contents
+  toc: {
+    minDepth: getEnvNumber("PUBLIC_CONTENT_TOC_MIN_DEPTH", 2),
+    maxDepth: getEnvNumber("PUBLIC_CONTENT_TOC_MAX_DEPTH", 3),
+    minHeadings: getEnvNumber("PUBLIC_CONTENT_TOC_MIN_HEADINGS", 3),
+  },
+
+  // Related Content
+  related: {
+    minItems: getEnvNumber("PUBLIC_CONTENT_RELATED_MIN", 3),
+    maxItems: getEnvNumber("PUBLIC_CONTENT_RELATED_MAX", 5),
+    tagWeight: parseFloat(getEnv("PUBLIC_CONTENT_RELATED_TAG_WEIGHT", "0.6")),
+    termWeight: parseFloat(getEnv("PUBLIC_CONTENT_RELATED_TERM_WEIGHT", "0.4")),
+    categoryWeights: {
+      technology: 1,
+      design: 1,
+      domain: 1.25,
+      skill: 0.75,
+    },
+  },
+
+  // Publishing (include drafts and scheduled entries in preview builds)
+  previewDrafts: getEnvBoolean("PUBLIC_PREVIEW_DRAFTS", false),
+
   // Defaults
   defaults: {
     author: getEnv("PUBLIC_CONTENT_DEFAULT_AUTHOR", SITE_CONFIG.author.name),
+    authorId: getEnv("PUBLIC_CONTENT_DEFAULT_AUTHOR_ID", "your-name"),
     image: getEnv("PUBLIC_CONTENT_DEFAULT_IMAGE", "/placeholder.jpg"),
   },
 } as const;
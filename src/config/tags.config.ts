@@ -6,6 +6,7 @@
  */
 
 import type { Tag, TagId, TagCategory } from "@/types/index";
+import { getAccessibleColorPairing } from "@/utils/color-contrast";
 
 // ============================================================================
 // Tag Categories
@@ -29,10 +30,13 @@ export const TAG_CATEGORIES = {
  * To add a new tag:
  * 1. Add entry with unique id
  * 2. Specify label, category, and optional metadata
+ * 3. Optionally set `parent` so content rolls up into a broader tag
  *
- * To remove a tag:
- * 1. Delete the entry
- * 2. Remove references in content files
+ * To rename, merge or retire a tag, use `npm run tags`:
+ * - `rename <from> <to>` / `merge <from> <into>` rewrite content files and
+ *   keep the old id in `aliases`, so old ids and `?tags=` URLs still resolve
+ * - `deprecate <id>` keeps the tag for existing content but stops
+ *   suggesting it
  */
 export const TAG_REGISTRY: Record<string, Tag> = {
   // ========== Technology Tags ==========
@@ -56,6 +60,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "technology",
     description: "TypeScript programming language",
     color: "#3178C6",
+    parent: "javascript" as TagId,
   },
   javascript: {
     id: "javascript" as TagId,
@@ -70,6 +75,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "technology",
     description: "React library for building user interfaces",
     color: "#61DAFB",
+    parent: "javascript" as TagId,
   },
   astro: {
     id: "astro" as TagId,
@@ -77,6 +83,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "technology",
     description: "Astro web framework",
     color: "#FF5D01",
+    parent: "javascript" as TagId,
   },
   tensorflow: {
     id: "tensorflow" as TagId,
@@ -84,6 +91,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "technology",
     description: "TensorFlow machine learning framework",
     color: "#FF6F00",
+    parent: "machine-learning" as TagId,
   },
   pytorch: {
     id: "pytorch" as TagId,
@@ -91,6 +99,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "technology",
     description: "PyTorch machine learning framework",
     color: "#EE4C2C",
+    parent: "machine-learning" as TagId,
   },
   qiskit: {
     id: "qiskit" as TagId,
@@ -98,6 +107,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "technology",
     description: "Qiskit quantum computing framework",
     color: "#6929C4",
+    parent: "quantum-computing" as TagId,
   },
   canvas: {
     id: "canvas" as TagId,
@@ -135,6 +145,7 @@ export const TAG_REGISTRY: Record<string, Tag> = {
     category: "design",
     description: "Swiss/International Typographic Style",
     color: "#D32F2F",
+    parent: "design" as TagId,
   },
   "design-systems": {
     id: "design-systems" as TagId,
@@ -257,6 +268,45 @@ export const TAGS = TAG_REGISTRY;
 // Tag Utility Functions
 // ============================================================================
 
+/**
+ * Former tag ids mapped to the tag they now resolve to
+ */
+const TAG_ALIASES: ReadonlyMap<string, TagId> = new Map(
+  Object.values(TAG_REGISTRY).flatMap((tag) =>
+    (tag.aliases ?? []).map((alias) => [alias, tag.id] as const)
+  )
+);
+
+/**
+ * Child tags per parent tag id
+ */
+const TAG_CHILDREN: ReadonlyMap<TagId, readonly Tag[]> = Object.values(
+  TAG_REGISTRY
+).reduce((children, tag) => {
+  if (tag.parent) {
+    children.set(tag.parent, [...(children.get(tag.parent) ?? []), tag]);
+  }
+  return children;
+}, new Map<TagId, Tag[]>());
+
+/**
+ * Resolve a tag id or alias to a registered tag id
+ */
+export function resolveTagId(id: string): TagId | undefined {
+  return isValidTagId(id) ? id : TAG_ALIASES.get(id);
+}
+
+/**
+ * Get alias → tag id pairs, optionally only for the given tags
+ */
+export function getTagAliases(
+  tags: readonly Tag[] = getAllTags()
+): Record<string, TagId> {
+  return Object.fromEntries(
+    tags.flatMap((tag) => (tag.aliases ?? []).map((alias) => [alias, tag.id]))
+  );
+}
+
 /**
  * Get all available tags
  */
@@ -269,7 +319,7 @@ export function getAllTags(): readonly Tag[] {
  */
 export function getTagsByIds(tagIds: readonly TagId[]): readonly Tag[] {
   return tagIds
-    .map((id) => TAG_REGISTRY[id as keyof typeof TAG_REGISTRY])
+    .map((id) => getTagById(id))
     .filter((tag): tag is Tag => tag !== undefined);
 }
 
@@ -309,7 +359,64 @@ export function isValidTagId(id: string): id is TagId {
  * Get tag by ID with fallback
  */
 export function getTagById(id: TagId, fallback?: Tag): Tag | undefined {
-  return TAG_REGISTRY[id as keyof typeof TAG_REGISTRY] || fallback;
+  const resolved = resolveTagId(id);
+  return (resolved && TAG_REGISTRY[resolved]) || fallback;
+}
+
+/**
+ * Get the direct children of a tag
+ */
+export function getTagChildren(id: TagId): readonly Tag[] {
+  return TAG_CHILDREN.get(id) ?? [];
+}
+
+/**
+ * Get all tags below a tag in the hierarchy (children, grandchildren, ...)
+ */
+export function getTagDescendantIds(id: TagId): readonly TagId[] {
+  const descendants: TagId[] = [];
+  const queue = [id];
+
+  while (queue.length > 0) {
+    for (const child of getTagChildren(queue.shift()!)) {
+      if (child.id !== id && !descendants.includes(child.id)) {
+        descendants.push(child.id);
+        queue.push(child.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Get the parent chain of a tag, nearest first (stops at cycles)
+ */
+export function getTagAncestorIds(id: TagId): readonly TagId[] {
+  const ancestors: TagId[] = [];
+  let parent = getTagById(id)?.parent;
+
+  while (parent && parent !== id && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = getTagById(parent)?.parent;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Expand tag ids with all their descendants, so filtering on a parent
+ * tag also matches content tagged with its children
+ */
+export function expandTagIds(tagIds: readonly TagId[]): readonly TagId[] {
+  return [...new Set(tagIds.flatMap((id) => [id, ...getTagDescendantIds(id)]))];
+}
+
+/**
+ * Get the landing page URL for a tag
+ */
+export function getTagUrl(id: TagId): string {
+  return `/tags/${id}`;
 }
 
 /**
@@ -321,9 +428,10 @@ export function searchTags(query: string): readonly Tag[] {
 
   return getAllTags().filter(
     (tag) =>
-      tag.label.toLowerCase().includes(lowerQuery) ||
-      tag.description?.toLowerCase().includes(lowerQuery) ||
-      tag.id.toLowerCase().includes(lowerQuery)
+      !tag.deprecated &&
+      (tag.label.toLowerCase().includes(lowerQuery) ||
+        tag.description?.toLowerCase().includes(lowerQuery) ||
+        tag.id.toLowerCase().includes(lowerQuery))
   );
 }
 
@@ -350,12 +458,19 @@ export function getTagsGroupedByCategory(): Record<TagCategory, Tag[]> {
 }
 
 /**
- * Get tag statistics
+ * Get tag statistics.
+ * Pass usage counts (see `getTagUsageCounts`) to rank the most used tags.
+ * `inaccessibleColors` lists tags whose color cannot be paired to meet
+ * WCAG AA as a badge.
  */
-export function getTagStatistics(): {
+export function getTagStatistics(
+  usage: ReadonlyMap<TagId, number> = new Map(),
+  limit = 5
+): {
   total: number;
   byCategory: Record<TagCategory, number>;
   mostUsed: Tag[];
+  inaccessibleColors: Tag[];
 } {
   const tags = getAllTags();
   const byCategory: Record<string, number> = {};
@@ -367,29 +482,41 @@ export function getTagStatistics(): {
   return {
     total: tags.length,
     byCategory: byCategory as Record<TagCategory, number>,
-    mostUsed: [], // Could be calculated from content if needed
+    mostUsed: tags
+      .filter((tag) => (usage.get(tag.id) ?? 0) > 0)
+      .sort(
+        (a, b) =>
+          (usage.get(b.id) ?? 0) - (usage.get(a.id) ?? 0) ||
+          a.label.localeCompare(b.label)
+      )
+      .slice(0, limit),
+    inaccessibleColors: tags.filter(
+      (tag) => tag.color && !getAccessibleColorPairing(tag.color).compliant
+    ),
   };
 }
 
 /**
- * Validate tag IDs against registry
+ * Validate tag IDs against registry.
+ * Aliases resolve to their current tag id; duplicates are dropped.
  */
 export function validateTagIds(tagIds: readonly string[]): {
   valid: readonly TagId[];
   invalid: readonly string[];
 } {
-  const valid: TagId[] = [];
+  const valid = new Set<TagId>();
   const invalid: string[] = [];
 
   for (const id of tagIds) {
-    if (isValidTagId(id)) {
-      valid.push(id as TagId);
+    const resolved = resolveTagId(id);
+    if (resolved) {
+      valid.add(resolved);
     } else {
       invalid.push(id);
     }
   }
 
-  return { valid, invalid };
+  return { valid: [...valid], invalid };
 }
 
 /**
@@ -407,7 +534,9 @@ export function getSuggestedTags(
   const suggested = getAllTags()
     .filter(
       (tag) =>
-        !existingTags.includes(tag.id) && existingCategories.has(tag.category)
+        !tag.deprecated &&
+        !existingTags.includes(tag.id) &&
+        existingCategories.has(tag.category)
     )
     .slice(0, limit);
 
@@ -2,29 +2,33 @@
  * Content Collections Configuration
  *
  * Defines content collections for type-safe content management.
- * Uses Zod schemas for validation and TypeScript type inference.
+ * Schemas are derived from the validation layer in `src/schemas/content.ts`
+ * so every field the content pipeline understands can be authored.
  *
  * @see https://docs.astro.build/en/guides/content-collections/
  */
 
-import { defineCollection, z } from "astro:content";
+import { defineCollection, reference } from "astro:content";
 import { glob } from "astro/loaders";
+import {
+  writingFrontmatterSchema,
+  workFrontmatterSchema,
+  seriesFrontmatterSchema,
+  authorFrontmatterSchema,
+} from "@/schemas/content";
 
 /**
  * Writing collection schema
- * Defines the structure for blog posts
+ * Defines the structure for blog posts; `author` references the authors
+ * collection
  */
 const writing = defineCollection({
   loader: glob({
     pattern: "**/*.mdx",
     base: "./src/content/writing",
   }),
-  schema: z.object({
-    title: z.string(),
-    excerpt: z.string(),
-    date: z.string(),
-    readTime: z.string(),
-    tags: z.array(z.string()),
+  schema: writingFrontmatterSchema.extend({
+    author: reference("authors").optional(),
   }),
 });
 
@@ -37,15 +41,36 @@ const work = defineCollection({
     pattern: "**/*.mdx",
     base: "./src/content/work",
   }),
-  schema: z.object({
-    title: z.string(),
-    description: z.string(),
-    year: z.string(),
-    tags: z.array(z.string()),
+  schema: workFrontmatterSchema,
+});
+
+/**
+ * Series collection schema
+ * Groups multi-part writing posts; the body is the series introduction
+ */
+const series = defineCollection({
+  loader: glob({
+    pattern: "**/*.mdx",
+    base: "./src/content/series",
+  }),
+  schema: seriesFrontmatterSchema,
+});
+
+/**
+ * Authors collection schema
+ * Author profiles referenced by the `author` field of writing posts;
+ * the body is the long-form bio. The site owner comes from the site
+ * config and needs no entry.
+ */
+const authors = defineCollection({
+  loader: glob({
+    pattern: "**/*.mdx",
+    base: "./src/content/authors",
   }),
+  schema: authorFrontmatterSchema,
 });
 
 /**
  * Export all collections
  */
-export const collections = { writing, work };
+export const collections = { writing, work, series, authors };
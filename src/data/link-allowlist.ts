@@ -0,0 +1,16 @@
+/**
+ * External Link Allowlist
+ *
+ * Hostnames external links may point to when the link checker runs with
+ * `LINK_CHECK_ALLOWLIST=true`. Subdomains of an entry are allowed too.
+ */
+
+export const EXTERNAL_LINK_ALLOWLIST: readonly string[] = [
+  "github.com",
+  "linkedin.com",
+  "twitter.com",
+  "x.com",
+  "developer.mozilla.org",
+  "schema.org",
+  "w3.org",
+];
@@ -0,0 +1,149 @@
+/**
+ * Link Checker Integration
+ *
+ * After the build, checks every internal href in the MDX content and the
+ * rendered pages: each must resolve to a generated route, and each
+ * `#fragment` to an id on the target page. External links are checked for
+ * syntax only (builds run offline), plus an optional hostname allowlist.
+ *
+ * Issues in MDX are reported as `file:line href — reason`, issues in page
+ * templates as `/route href — reason`. The `mode` decides
+ * whether they fail the build ("error"), are logged ("warn") or are not
+ * checked at all ("off").
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AstroIntegration } from "astro";
+import {
+  checkLinks,
+  findHtmlIds,
+  findHtmlLinks,
+  findMdxLinks,
+  formatLinkIssue,
+  getContentRoute,
+  toRouteKey,
+  type FoundLink,
+  type LinkIssue,
+} from "../utils/link-check";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LinkCheckMode = "error" | "warn" | "off";
+
+export interface LinkCheckerOptions {
+  readonly mode?: LinkCheckMode;
+  /** Allowed external hostnames; unset skips the allowlist check */
+  readonly allowlist?: readonly string[] | undefined;
+}
+
+// ============================================================================
+// File Helpers
+// ============================================================================
+
+/**
+ * List files under a directory recursively
+ */
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+/**
+ * Convert a path to forward slashes relative to a base directory
+ */
+function toPosixPath(base: string, path: string): string {
+  return relative(base, path).split(sep).join("/");
+}
+
+// ============================================================================
+// Integration
+// ============================================================================
+
+export default function linkChecker(
+  options: LinkCheckerOptions = {}
+): AstroIntegration {
+  const mode = options.mode ?? "warn";
+  let root = process.cwd();
+  let site: string | undefined;
+
+  return {
+    name: "link-checker",
+    hooks: {
+      "astro:config:done": ({ config }) => {
+        root = fileURLToPath(config.root);
+        site = config.site;
+      },
+
+      "astro:build:done": ({ dir, logger }) => {
+        if (mode === "off") return;
+
+        const distDir = fileURLToPath(dir);
+        const contentDir = join(root, "src", "content");
+        const routes = new Map<string, ReadonlySet<string>>();
+        const pageLinks: FoundLink[] = [];
+
+        // Rendered pages: routes, their ids and their links
+        for (const path of listFiles(distDir)) {
+          if (!path.endsWith(".html")) continue;
+
+          const html = readFileSync(path, "utf-8");
+          const route = toRouteKey(toPosixPath(distDir, path));
+          routes.set(route, findHtmlIds(html));
+          pageLinks.push(...findHtmlLinks(html, route));
+        }
+
+        // MDX sources, resolved relative to the entry's own page
+        const contentLinks = listFiles(contentDir)
+          .filter((path) => path.endsWith(".mdx"))
+          .flatMap((path) => {
+            const route = getContentRoute(toPosixPath(contentDir, path));
+            return route
+              ? findMdxLinks(
+                  readFileSync(path, "utf-8"),
+                  toPosixPath(root, path),
+                  route
+                )
+              : [];
+          });
+
+        const siteIndex = {
+          routes,
+          hasFile: (path: string) => existsSync(join(distDir, path)),
+        };
+        const checkOptions = { site, allowlist: options.allowlist };
+        const contentIssues = checkLinks(contentLinks, siteIndex, checkOptions);
+
+        // Report links from MDX once, at their source line
+        const reported = new Set(
+          contentIssues.map((issue) => `${issue.route} ${issue.href}`)
+        );
+        const issues: LinkIssue[] = [
+          ...contentIssues,
+          ...checkLinks(pageLinks, siteIndex, checkOptions).filter(
+            (issue) => !reported.has(`${issue.route} ${issue.href}`)
+          ),
+        ];
+
+        const checked = contentLinks.length + pageLinks.length;
+        if (issues.length === 0) {
+          logger.info(`Checked ${checked} links, none broken`);
+          return;
+        }
+
+        const report = `[LinkChecker] ${issues.length} broken links:\n  ${issues.map(formatLinkIssue).join("\n  ")}`;
+        if (mode === "error") {
+          throw new Error(report);
+        }
+        logger.warn(report);
+      },
+    },
+  };
+}
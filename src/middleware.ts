@@ -0,0 +1,30 @@
+/**
+ * Middleware
+ *
+ * Validates content (see `validateContent`) before the first page
+ * renders: once per build, and on every request in dev so content edits
+ * are re-checked.
+ */
+
+import { defineMiddleware } from "astro:middleware";
+import { getCollection } from "astro:content";
+import { validateContent } from "./utils/content-validation";
+
+let validation: Promise<void> | undefined;
+
+async function runValidation(): Promise<void> {
+  validateContent({
+    writing: await getCollection("writing"),
+    work: await getCollection("work"),
+    series: await getCollection("series"),
+  });
+}
+
+export const onRequest = defineMiddleware(async (_context, next) => {
+  if (!validation || import.meta.env.DEV) {
+    validation = runValidation();
+  }
+
+  await validation;
+  return next();
+});
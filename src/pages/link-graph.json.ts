@@ -0,0 +1,31 @@
+/**
+ * Link Graph Endpoint
+ *
+ * Purpose: JSON graph of internal links between published posts and
+ * projects, built from the `/writing/*` and `/work/*` links in MDX bodies.
+ */
+
+import { getCollection } from "astro:content";
+import {
+  isPublishedEntry,
+  processWritingPosts,
+  processWorkProjects,
+} from "../utils/content";
+import { createRelatedSources } from "../utils/related";
+import { buildLinkGraph } from "../utils/link-graph";
+import type { APIRoute } from "astro";
+
+export const GET: APIRoute = async () => {
+  // Published entries only (never drafts, even in preview builds)
+  const writingPosts = await getCollection("writing", isPublishedEntry);
+  const workProjects = await getCollection("work", isPublishedEntry);
+
+  const graph = buildLinkGraph([
+    ...createRelatedSources(processWritingPosts(writingPosts), writingPosts),
+    ...createRelatedSources(processWorkProjects(workProjects), workProjects),
+  ]);
+
+  return new Response(JSON.stringify(graph, null, 2), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
@@ -7,12 +7,25 @@
 import rss from "@astrojs/rss";
 import { getCollection } from "astro:content";
 import { SITE } from "../config/site.config";
+import { isPublishedEntry } from "../utils/content";
+import { processAuthors, resolveAuthor } from "../utils/authors";
 import type { APIRoute } from "astro";
 import type { CollectionEntry } from "astro:content";
 
+/**
+ * Escape text for use inside XML elements
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
 export const GET: APIRoute = async (context) => {
-  // Get all writing posts
-  const posts = await getCollection("writing");
+  // Get published writing posts (never drafts, even in preview builds)
+  const posts = await getCollection("writing", isPublishedEntry);
+  const authors = processAuthors(await getCollection("authors"));
 
   // Sort posts by date (newest first)
   const sortedPosts = posts.sort(
@@ -28,6 +41,7 @@ export const GET: APIRoute = async (context) => {
     title: SITE.title,
     description: SITE.description,
     site: context.site?.toString() || "",
+    xmlns: { dc: "http://purl.org/dc/elements/1.1/" },
 
     // Feed items from blog posts
     items: sortedPosts.map((post: CollectionEntry<"writing">) => ({
@@ -36,7 +50,12 @@ export const GET: APIRoute = async (context) => {
       pubDate: new Date(post.data.date),
       link: `/writing/${post.id}/`,
       // Optional: Add categories/tags
-      categories: post.data.tags || [],
+      categories: [...post.data.tags],
+      // Per-post author (RSS <author> requires an email address)
+      customData: `<dc:creator>${escapeXml(
+        resolveAuthor({ id: post.id, author: post.data.author?.id }, authors)
+          .name
+      )}</dc:creator>`,
     })),
 
     // Customize feed appearance
@@ -3,18 +3,24 @@
  *
  * Zod schemas for runtime validation of content with detailed error messages.
  * Provides type-safe validation with automatic TypeScript type inference.
+ *
+ * Uses Astro's bundled Zod so the same schemas can back the content
+ * collections in `src/content/config.ts`.
  */
 
-import { z } from "zod";
+import { z } from "astro/zod";
 import type {
   WritingPost,
   WorkProject,
+  Author,
+  Series,
   Tag,
   TagId,
   Slug,
   ISODate,
   URL,
 } from "@/types/index";
+import { formatReadTime } from "@/utils/reading-time";
 
 // ============================================================================
 // Branded Type Schemas
@@ -101,6 +107,9 @@ export const tagSchema = z.object({
     .string()
     .regex(/^#[0-9A-Fa-f]{6}$/, "Color must be a valid hex color")
     .optional(),
+  parent: tagIdSchema.optional(),
+  aliases: z.array(tagIdSchema).readonly().optional(),
+  deprecated: z.boolean().optional(),
 }) as unknown as z.ZodType<Tag>;
 
 /**
@@ -113,24 +122,64 @@ export const tagIdsSchema = z
   .transform((tags) => [...new Set(tags)])
   .readonly() as unknown as z.ZodType<readonly TagId[]>;
 
+// ============================================================================
+// Content Reference Schemas
+// ============================================================================
+
+/**
+ * Cross-collection content reference (e.g., "work/neural-networks")
+ */
+export const contentRefSchema = z
+  .string()
+  .regex(/^(?:writing|work)\/[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Reference must be in format "writing/<slug>" or "work/<slug>"',
+  });
+
+/**
+ * Related content overrides (pin or exclude items)
+ */
+export const relatedOverrideSchema = z.object({
+  pin: z
+    .array(contentRefSchema)
+    .max(5, "Maximum 5 pinned items allowed")
+    .default([])
+    .readonly(),
+  exclude: z.array(contentRefSchema).default([]).readonly(),
+});
+
+/**
+ * Cross-collection references by entry id (checked against the
+ * collections at build time, see `validateCrossReferences`)
+ */
+export const contentIdsSchema = z
+  .array(slugSchema)
+  .max(20, "Maximum 20 references allowed")
+  .default([])
+  .transform((ids) => [...new Set(ids)])
+  .readonly();
+
 // ============================================================================
 // Writing Post Schema
 // ============================================================================
 
 /**
  * Reading time validation (e.g., "5 min read")
+ * Computed minutes from `calculateReadingTime` are formatted for display.
  */
 export const readTimeSchema = z
   .string()
   .regex(/^\d+\s+min(?:ute)?(?:s)?\s+read$/, {
     message: 'Read time must be in format "X min read" or "X minutes read"',
   })
-  .or(
-    z
-      .number()
-      .positive()
-      .transform((n) => `${n} min read`)
-  );
+  .or(z.number().int().positive().transform(formatReadTime));
+
+/**
+ * Reading time in whole minutes (for sorting and filtering)
+ */
+export const readingMinutesSchema = z
+  .number()
+  .int()
+  .positive("Reading time must be at least 1 minute");
 
 /**
  * Year validation (1900-current year + 10)
@@ -158,7 +207,7 @@ export const yearSchema = z
 /**
  * Writing post schema with comprehensive validation
  */
-const writingPostSchemaBase = z.object({
+export const writingPostSchemaBase = z.object({
   type: z.literal("post"),
   id: slugSchema,
   title: z
@@ -178,12 +227,24 @@ const writingPostSchemaBase = z.object({
     .trim(),
   date: isoDateSchema,
   readTime: readTimeSchema,
+  readingMinutes: readingMinutesSchema,
   slug: slugSchema,
   tags: tagIdsSchema,
   dateObj: z.date().or(z.string().transform((s) => new Date(s))),
-  author: z.string().min(1).max(100).trim().optional(),
+  author: slugSchema.optional(),
   image: urlSchema.optional(),
+  draft: z.boolean().default(false),
+  publishAt: isoDateSchema.optional(),
   published: z.boolean().default(true),
+  series: slugSchema.optional(),
+  seriesOrder: z
+    .number()
+    .int()
+    .positive("Series order must be a positive integer")
+    .optional(),
+  related: relatedOverrideSchema.optional(),
+  toc: z.boolean().default(true),
+  projects: contentIdsSchema,
 });
 
 export const writingPostSchema =
@@ -203,7 +264,7 @@ export const writingPostUpdateSchema = writingPostSchemaBase
 /**
  * Work project schema with comprehensive validation
  */
-const workProjectSchemaBase = z.object({
+export const workProjectSchemaBase = z.object({
   type: z.literal("project"),
   id: slugSchema,
   title: z
@@ -227,6 +288,18 @@ const workProjectSchemaBase = z.object({
     .optional()
     .readonly(),
   featured: z.boolean().default(false),
+  pinned: z.boolean().default(false),
+  order: z
+    .number()
+    .int()
+    .positive("Order must be a positive integer")
+    .optional(),
+  draft: z.boolean().default(false),
+  publishAt: isoDateSchema.optional(),
+  published: z.boolean().default(true),
+  related: relatedOverrideSchema.optional(),
+  toc: z.boolean().default(true),
+  posts: contentIdsSchema,
 });
 
 export const workProjectSchema =
@@ -239,6 +312,122 @@ export const workProjectUpdateSchema = workProjectSchemaBase
   .partial()
   .omit({ id: true, type: true });
 
+// ============================================================================
+// Author Schema
+// ============================================================================
+
+/**
+ * Author social link schema
+ */
+export const authorSocialLinkSchema = z.object({
+  label: z
+    .string()
+    .min(1, "Label cannot be empty")
+    .max(30, "Label must be less than 30 characters")
+    .trim(),
+  url: urlSchema,
+});
+
+/**
+ * Author profile schema
+ */
+export const authorSchemaBase = z.object({
+  id: slugSchema,
+  name: z
+    .string()
+    .min(1, "Name cannot be empty")
+    .max(100, "Name must be less than 100 characters")
+    .trim(),
+  bio: z
+    .string()
+    .min(1, "Bio cannot be empty")
+    .max(500, "Bio must be less than 500 characters")
+    .trim(),
+  avatar: z.string().min(1).optional(),
+  social: z.array(authorSocialLinkSchema).max(10).default([]).readonly(),
+});
+
+export const authorSchema = authorSchemaBase as unknown as z.ZodType<Author>;
+
+// ============================================================================
+// Series Schema
+// ============================================================================
+
+/**
+ * Writing series schema
+ */
+export const seriesSchemaBase = z.object({
+  id: slugSchema,
+  title: z
+    .string()
+    .min(1, "Title cannot be empty")
+    .max(100, "Title must be less than 100 characters")
+    .trim(),
+  description: z
+    .string()
+    .min(1, "Description cannot be empty")
+    .max(500, "Description must be less than 500 characters")
+    .trim(),
+});
+
+export const seriesSchema = seriesSchemaBase as unknown as z.ZodType<Series>;
+
+// ============================================================================
+// Collection Frontmatter Schemas
+// ============================================================================
+
+/**
+ * Frontmatter date validation
+ * Accepts any parseable date string; unquoted YAML dates are normalized to ISO
+ */
+export const frontmatterDateSchema = z.preprocess(
+  (val) => (val instanceof Date ? val.toISOString() : val),
+  z.string().refine((val) => !isNaN(new Date(val).getTime()), {
+    message: "Invalid date format",
+  })
+);
+
+/**
+ * Writing frontmatter schema, derived from the writing post schema.
+ * Fields computed during processing (type, id, slug, dateObj, published,
+ * reading time) are omitted.
+ */
+export const writingFrontmatterSchema = writingPostSchemaBase
+  .omit({
+    type: true,
+    id: true,
+    slug: true,
+    dateObj: true,
+    published: true,
+    readTime: true,
+    readingMinutes: true,
+  })
+  .extend({
+    date: frontmatterDateSchema,
+    description: writingPostSchemaBase.shape.description.optional(),
+    publishAt: frontmatterDateSchema.optional(),
+  });
+
+/**
+ * Work frontmatter schema, derived from the work project schema.
+ * Fields computed during processing (type, id, link, published) are omitted.
+ */
+export const workFrontmatterSchema = workProjectSchemaBase
+  .omit({ type: true, id: true, link: true, published: true })
+  .extend({
+    publishAt: frontmatterDateSchema.optional(),
+  });
+
+/**
+ * Series frontmatter schema, derived from the series schema.
+ */
+export const seriesFrontmatterSchema = seriesSchemaBase.omit({ id: true });
+
+/**
+ * Author frontmatter schema, derived from the author schema.
+ */
+export const authorFrontmatterSchema = authorSchemaBase.omit({ id: true });
+
 // ============================================================================
 // Content Processing Schemas
 // ============================================================================
@@ -324,6 +513,30 @@ export function safeValidateWorkProject(
     : { success: false, error: result.error };
 }
 
+/**
+ * Safe series validation with error handling
+ */
+export function safeValidateSeries(
+  data: unknown
+): { success: true; data: Series } | { success: false; error: z.ZodError } {
+  const result = seriesSchema.safeParse(data);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error };
+}
+
+/**
+ * Safe author validation with error handling
+ */
+export function safeValidateAuthor(
+  data: unknown
+): { success: true; data: Author } | { success: false; error: z.ZodError } {
+  const result = authorSchema.safeParse(data);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error };
+}
+
 /**
  * Validate tag
  */
@@ -443,3 +656,5 @@ export function groupErrorsByField(
 export type InferWritingPost = z.infer<typeof writingPostSchemaBase>;
 export type InferWorkProject = z.infer<typeof workProjectSchemaBase>;
 export type InferTag = z.infer<typeof tagSchema>;
+export type InferWritingFrontmatter = z.infer<typeof writingFrontmatterSchema>;
+export type InferWorkFrontmatter = z.infer<typeof workFrontmatterSchema>;
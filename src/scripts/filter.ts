@@ -2,8 +2,25 @@
  * Filter Script - Client-side Content Filtering (WORKING & GENERIC)
  *
  * Truly generic - accepts ANY string as type, no hardcoded sections.
+ * Items match any selected tag or, with `?match=all`, every one of them.
+ * Facets (content type, category, ...) narrow the result further: values
+ * within a facet are OR-ed, facets and tags are AND-ed. Range facets (year)
+ * keep items between a from and a to value instead (`?from=2022&to=2024`).
+ * Every tag and facet value shows how many items it would leave, and the
+ * whole selection lives in the URL. `?sort=` reorders the items (animated
+ * unless reduced motion is preferred). The bar's tag search
+ * (`tag-combobox.ts`) adds tags here.
  */
 
+import type {
+  FacetControl,
+  FacetId,
+  FacetRange,
+  FilterMatchMode,
+  SortOrder,
+} from "@/types/index";
+import { TagCombobox, type TagOptionState } from "@/scripts/tag-combobox";
+import { DEFAULT_SORT_ORDER } from "@/utils/sorting";
 import { trackFilterChange, trackFilterClear } from "@/utils/use-analytics";
 import {
   getElementById,
@@ -11,8 +28,11 @@ import {
   addClass,
   removeClass,
   setAttribute,
+  removeAttribute,
   getAttribute,
   setText,
+  scrollToTop,
+  prefersReducedMotion,
 } from "@/utils/use-dom-utils";
 
 // ============================================================================
@@ -23,11 +43,49 @@ interface FilterConfig {
   type: string;
   filterTagsId: string;
   clearBtnId: string;
+  matchModeId: string;
+  limitMessageId: string;
   resultsCountId: string;
+  paginationId: string;
+  facetsId: string;
+  sortId: string;
+  tagSearchId: string;
   itemSelector: string;
   tagAttribute: string;
 }
 
+interface FacetGroup {
+  id: FacetId;
+  control: FacetControl;
+  /** URL param of a toggle facet */
+  param: string;
+  /** URL params of a range facet's bounds */
+  fromParam: string;
+  toParam: string;
+  attribute: string;
+  values: Set<string>;
+  /** Value → [min, max) for bucketed values (e.g., reading time) */
+  ranges: Map<string, { min: number; max: number }>;
+}
+
+interface FilterEntry {
+  element: HTMLElement;
+  /** Position in the page's own order (newest first, pinned projects on top) */
+  index: number;
+  tags: string[];
+  values: Map<FacetId, string[]>;
+  date: string;
+  title: string;
+  readingMinutes: number;
+  featured: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const REORDER_DURATION = 300;
+
 // ============================================================================
 // State Management
 // ============================================================================
@@ -41,10 +99,28 @@ const initializedInstances = new Map<string, FilterInstance>();
 class FilterInstance {
   private config: FilterConfig;
   private activeFilters = new Set<string>();
+  private activeFacets = new Map<FacetId, Set<string>>();
+  private activeRanges = new Map<FacetId, FacetRange>();
+  private tagAliases: Record<string, string> = {};
+  private tagDescendants: Record<string, string[]> = {};
+  private matchMode: FilterMatchMode = "any";
+  private sortOrder: SortOrder = DEFAULT_SORT_ORDER;
+  private maxActiveFilters = 0;
+  private currentPage = 1;
+  private pageSize = 0;
+  private facetGroups: FacetGroup[] = [];
+  private entries: FilterEntry[] = [];
+  private tagCounts = new Map<string, number>();
+  private tagSearch: TagCombobox | null = null;
   private elements: {
     filterTags: HTMLElement;
     clearBtn: HTMLElement;
+    matchMode: HTMLElement | null;
+    limitMessage: HTMLElement | null;
+    facets: HTMLElement | null;
+    sort: HTMLElement | null;
     resultsCount: HTMLElement;
+    pagination: HTMLElement | null;
     items: NodeListOf<HTMLElement>;
   };
   private abortController: AbortController;
@@ -55,17 +131,59 @@ class FilterInstance {
       type,
       filterTagsId: `${type}-filter-tags`,
       clearBtnId: `${type}-clear-filters`,
+      matchModeId: `${type}-match-mode`,
+      limitMessageId: `${type}-filter-limit`,
       resultsCountId: `${type}-results-count`,
+      paginationId: `${type}-pagination`,
+      facetsId: `${type}-facets`,
+      sortId: `${type}-sort`,
+      tagSearchId: `${type}-tag-search`,
       itemSelector: `[data-${type}-item]`,
       tagAttribute: `data-${type}-tags`,
     };
 
     this.elements = this.getElements();
+    this.tagAliases = this.getTagAliases();
+    this.tagDescendants = this.getTagDescendants();
+    this.maxActiveFilters =
+      Number(this.elements.filterTags.dataset["maxActive"]) || 0;
+    this.pageSize = Number(this.elements.pagination?.dataset["pageSize"]) || 0;
+    this.facetGroups = this.getFacetGroups();
+    this.entries = this.getEntries();
     this.abortController = new AbortController();
     this.debouncedUpdateURL = this.createDebounce(() => this.updateURL(), 500);
+    this.tagSearch = this.createTagSearch();
     this.initialize();
   }
 
+  /**
+   * Type-ahead search over the bar's tags, if the bar renders one
+   */
+  private createTagSearch(): TagCombobox | null {
+    const root = getElementById(this.config.tagSearchId);
+    if (!root) return null;
+
+    const tagIds = new Set(
+      Array.from(
+        this.elements.filterTags.querySelectorAll<HTMLElement>(
+          ".filter-tag-btn"
+        )
+      ).map((btn) => btn.dataset["tagId"] ?? "")
+    );
+
+    try {
+      return new TagCombobox(root, {
+        tagIds,
+        getTagState: (tagId) => this.getTagState(tagId),
+        onSelect: (tagId) => this.selectTag(tagId),
+        signal: this.abortController.signal,
+      });
+    } catch (error) {
+      console.error("[Filter] Tag search unavailable:", error);
+      return null;
+    }
+  }
+
   private getElements() {
     const filterTags = getElementById(this.config.filterTagsId, {
       required: true,
@@ -79,6 +197,11 @@ class FilterInstance {
       required: true,
       errorMessage: `Results count element not found: ${this.config.resultsCountId}`,
     });
+    const matchMode = getElementById(this.config.matchModeId);
+    const limitMessage = getElementById(this.config.limitMessageId);
+    const facets = getElementById(this.config.facetsId);
+    const sort = getElementById(this.config.sortId);
+    const pagination = getElementById(this.config.paginationId);
     const items = querySelectorAll<HTMLElement>(this.config.itemSelector);
 
     if (!filterTags || !clearBtn || !resultsCount) {
@@ -87,7 +210,119 @@ class FilterInstance {
       );
     }
 
-    return { filterTags, clearBtn, resultsCount, items };
+    return {
+      filterTags,
+      clearBtn,
+      matchMode,
+      limitMessage,
+      facets,
+      sort,
+      resultsCount,
+      pagination,
+      items,
+    };
+  }
+
+  /**
+   * Former tag ids → current ids, so old `?tags=` links keep working
+   */
+  private getTagAliases(): Record<string, string> {
+    try {
+      return JSON.parse(
+        this.elements.filterTags.dataset["tagAliases"] ?? "{}"
+      ) as Record<string, string>;
+    } catch (error) {
+      console.error("[Filter] Invalid tag aliases:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Parent tag ids → child tag ids, so a parent filter matches its children
+   */
+  private getTagDescendants(): Record<string, string[]> {
+    try {
+      return JSON.parse(
+        this.elements.filterTags.dataset["tagDescendants"] ?? "{}"
+      ) as Record<string, string[]>;
+    } catch (error) {
+      console.error("[Filter] Invalid tag hierarchy:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Facets rendered by the FilterBar, with their URL params and item attributes
+   */
+  private getFacetGroups(): FacetGroup[] {
+    return Array.from(
+      this.elements.facets?.querySelectorAll<HTMLElement>("[data-facet]") ?? []
+    ).map((group) => {
+      const buttons = Array.from(
+        group.querySelectorAll<HTMLElement>(".facet-value-btn")
+      );
+      const options = Array.from(
+        group.querySelectorAll<HTMLElement>("[data-facet-value]")
+      );
+      const ranges = new Map<string, { min: number; max: number }>();
+
+      buttons.forEach((btn) => {
+        const { facetValue, facetMin, facetMax } = btn.dataset;
+        if (facetValue && facetMin !== undefined && facetMax !== undefined) {
+          ranges.set(facetValue, {
+            min: Number(facetMin),
+            max: Number(facetMax),
+          });
+        }
+      });
+
+      return {
+        id: group.dataset["facet"] as FacetId,
+        control: group.dataset["facetControl"] === "range" ? "range" : "toggle",
+        param: group.dataset["facetParam"] ?? "",
+        fromParam: group.dataset["facetFromParam"] ?? "",
+        toParam: group.dataset["facetToParam"] ?? "",
+        attribute: group.dataset["facetAttribute"] ?? "",
+        values: new Set(
+          options.map((option) => option.dataset["facetValue"] ?? "")
+        ),
+        ranges,
+      };
+    });
+  }
+
+  /**
+   * Tags, facet and sort values of every item, read once from its data
+   * attributes
+   */
+  private getEntries(): FilterEntry[] {
+    const prefix = `data-${this.config.type}`;
+
+    return Array.from(this.elements.items).map((element, index) => ({
+      element,
+      index,
+      tags: this.getListAttribute(element, this.config.tagAttribute),
+      values: new Map(
+        this.facetGroups.map((facet) => [
+          facet.id,
+          this.getListAttribute(element, facet.attribute),
+        ])
+      ),
+      date: getAttribute(element, `${prefix}-date`) ?? "",
+      title: getAttribute(element, `${prefix}-title`) ?? "",
+      readingMinutes: Number(getAttribute(element, `${prefix}-read-time`)) || 0,
+      featured: getAttribute(element, `${prefix}-featured`) === "true",
+    }));
+  }
+
+  private getListAttribute(element: HTMLElement, name: string): string[] {
+    const value = getAttribute(element, name);
+    return value
+      ? value
+          .split(",")
+          .map((v) => v.trim())
+          .filter(Boolean)
+      : [];
   }
 
   private initialize(): void {
@@ -95,6 +330,10 @@ class FilterInstance {
 
     this.loadStateFromURL();
     this.attachEventListeners();
+    this.expandActiveGroups();
+    if (this.sortOrder !== DEFAULT_SORT_ORDER) {
+      this.sortEntries();
+    }
     this.updateUI();
     this.filterItems();
 
@@ -107,6 +346,7 @@ class FilterInstance {
     try {
       const params = new URLSearchParams(window.location.search);
       const tagsParam = params.get("tags");
+      let isOverLimit = false;
 
       if (tagsParam) {
         const tags = tagsParam
@@ -114,13 +354,88 @@ class FilterInstance {
           .map((t) => t.trim())
           .filter(Boolean);
 
-        tags.forEach((tag) => this.activeFilters.add(tag));
+        tags.forEach((tag) => {
+          if (this.isAtLimit()) {
+            isOverLimit = true;
+          } else {
+            this.activeFilters.add(this.tagAliases[tag] ?? tag);
+          }
+        });
+      }
+
+      if (params.get("match") === "all") {
+        this.matchMode = "all";
+      }
+
+      const sort = params.get("sort");
+      if (sort && this.getSortButton(sort)) {
+        this.sortOrder = sort as SortOrder;
+      }
+
+      let hasUnknownFacetValue = false;
+      this.facetGroups.forEach((facet) => {
+        if (facet.control === "range") {
+          const range = this.getRangeFromParams(params, facet);
+          const from = params.get(facet.fromParam);
+          const to = params.get(facet.toParam);
+
+          if (range.from !== from || range.to !== to) {
+            hasUnknownFacetValue = true;
+          }
+          if (range.from !== null || range.to !== null) {
+            this.activeRanges.set(facet.id, range);
+          }
+          return;
+        }
+
+        const values = (params.get(facet.param) ?? "")
+          .split(",")
+          .map((v) => v.trim())
+          .filter(Boolean);
+        const known = values.filter((value) => facet.values.has(value));
+
+        if (known.length < values.length) hasUnknownFacetValue = true;
+        if (known.length > 0) this.activeFacets.set(facet.id, new Set(known));
+      });
+
+      const page = parseInt(params.get("page") ?? "", 10);
+      if (page > 1) {
+        this.currentPage = page;
+      }
+
+      // Replace renamed tag ids, tags over the limit and stale facet values
+      // in the address bar
+      if (
+        isOverLimit ||
+        hasUnknownFacetValue ||
+        tagsParam?.split(",").some((tag) => tag.trim() in this.tagAliases)
+      ) {
+        this.updateURL();
       }
     } catch (error) {
       console.error("[Filter] Failed to load state from URL:", error);
     }
   }
 
+  /**
+   * Known from/to values of a range facet, swapped if given backwards
+   */
+  private getRangeFromParams(
+    params: URLSearchParams,
+    facet: FacetGroup
+  ): FacetRange {
+    const known = (param: string) => {
+      const value = params.get(param)?.trim() ?? "";
+      return facet.values.has(value) ? value : null;
+    };
+    const from = known(facet.fromParam);
+    const to = known(facet.toParam);
+
+    return from !== null && to !== null && Number(from) > Number(to)
+      ? { from: to, to: from }
+      : { from, to };
+  }
+
   private attachEventListeners(): void {
     const { signal } = this.abortController;
 
@@ -133,16 +448,42 @@ class FilterInstance {
     this.elements.clearBtn.addEventListener("click", this.handleClearAll, {
       signal,
     });
+    this.elements.matchMode?.addEventListener("click", this.handleMatchClick, {
+      signal,
+    });
+    this.elements.facets?.addEventListener("click", this.handleFacetClick, {
+      signal,
+    });
+    this.elements.facets?.addEventListener("change", this.handleRangeChange, {
+      signal,
+    });
+    this.elements.sort?.addEventListener("click", this.handleSortClick, {
+      signal,
+    });
+    this.elements.pagination?.addEventListener("click", this.handlePageClick, {
+      signal,
+    });
   }
 
   private handleFilterClick = (event: Event): void => {
     const target = event.target as HTMLElement;
+    const toggle = target.closest<HTMLButtonElement>(".filter-group-toggle");
+
+    if (toggle) {
+      event.preventDefault();
+      this.setGroupExpanded(
+        toggle,
+        toggle.getAttribute("aria-expanded") !== "true"
+      );
+      return;
+    }
+
     const btn = target.closest<HTMLButtonElement>(".filter-tag-btn");
 
     if (btn?.dataset["tagId"]) {
       event.preventDefault();
       event.stopPropagation();
-      this.toggleFilter(btn.dataset["tagId"]);
+      this.handleTagSelect(btn, btn.dataset["tagId"]);
     }
   };
 
@@ -154,7 +495,114 @@ class FilterInstance {
 
     if (event.key === "Enter" || event.key === " ") {
       event.preventDefault();
-      this.toggleFilter(btn.dataset["tagId"]);
+      this.handleTagSelect(btn, btn.dataset["tagId"]);
+    }
+  };
+
+  /**
+   * Toggle a tag unless it is unavailable (no results or over the limit)
+   */
+  private handleTagSelect(btn: HTMLElement, tagId: string): void {
+    if (
+      getAttribute(btn, "aria-disabled") === "true" &&
+      !this.activeFilters.has(tagId) &&
+      !this.isAtLimit()
+    ) {
+      return;
+    }
+
+    this.toggleFilter(tagId);
+  }
+
+  private getTagButton(tagId: string): HTMLElement | null {
+    return (
+      Array.from(
+        this.elements.filterTags.querySelectorAll<HTMLElement>(
+          ".filter-tag-btn"
+        )
+      ).find((btn) => btn.dataset["tagId"] === tagId) ?? null
+    );
+  }
+
+  private getTagState(tagId: string): TagOptionState {
+    const isActive = this.activeFilters.has(tagId);
+    const btn = this.getTagButton(tagId);
+
+    return {
+      isActive,
+      isDisabled:
+        !isActive && !!btn && getAttribute(btn, "aria-disabled") === "true",
+      count: this.tagCounts.get(tagId) ?? null,
+    };
+  }
+
+  /**
+   * Add a tag picked in the tag search (never removes one)
+   */
+  private selectTag(tagId: string): void {
+    if (this.activeFilters.has(tagId)) return;
+
+    const btn = this.getTagButton(tagId);
+    if (btn) {
+      this.handleTagSelect(btn, tagId);
+    } else {
+      this.toggleFilter(tagId);
+    }
+
+    this.expandActiveGroups();
+  }
+
+  private handleFacetClick = (event: Event): void => {
+    const target = event.target as HTMLElement;
+    const btn = target.closest<HTMLButtonElement>(".facet-value-btn");
+    const group = btn?.closest<HTMLElement>("[data-facet]");
+    const value = btn?.dataset["facetValue"];
+
+    if (!btn || !group || !value) return;
+    event.preventDefault();
+
+    const facetId = group.dataset["facet"] as FacetId;
+    const isActive = this.activeFacets.get(facetId)?.has(value) ?? false;
+
+    if (getAttribute(btn, "aria-disabled") === "true" && !isActive) return;
+
+    this.toggleFacet(facetId, value);
+  };
+
+  private handleRangeChange = (event: Event): void => {
+    const target = event.target as HTMLElement;
+    const select = target.closest<HTMLSelectElement>("[data-facet-bound]");
+    const group = select?.closest<HTMLElement>("[data-facet]");
+    const bound = select?.dataset["facetBound"];
+
+    if (!select || !group || (bound !== "from" && bound !== "to")) return;
+
+    this.setRangeBound(
+      group.dataset["facet"] as FacetId,
+      bound,
+      select.value || null
+    );
+  };
+
+  private handleMatchClick = (event: Event): void => {
+    const target = event.target as HTMLElement;
+    const btn = target.closest<HTMLButtonElement>("[data-match-mode]");
+    const mode = btn?.dataset["matchMode"];
+
+    if (mode === "any" || mode === "all") {
+      event.preventDefault();
+      this.setMatchMode(mode);
+    }
+  };
+
+  private handleSortClick = (event: Event): void => {
+    const target = event.target as HTMLElement;
+    const btn = target.closest<HTMLButtonElement>("[data-sort]");
+    const sort = btn?.dataset["sort"];
+
+    if (sort) {
+      event.preventDefault();
+      this.setSortOrder(sort as SortOrder);
     }
   };
 
@@ -163,11 +611,41 @@ class FilterInstance {
     this.clearAllFilters();
   };
 
+  private handlePageClick = (event: Event): void => {
+    const target = event.target as HTMLElement;
+    const link = target.closest<HTMLAnchorElement>("[data-page]");
+    const page = Number(link?.dataset["page"]);
+
+    if (this.pageSize > 0 && page > 0) {
+      event.preventDefault();
+      this.goToPage(page);
+    }
+  };
+
+  private goToPage(page: number): void {
+    if (page === this.currentPage) return;
+
+    console.log(`[Filter] Page ${this.currentPage} → ${page}`);
+
+    this.currentPage = page;
+    this.filterItems();
+    this.updateURL();
+    scrollToTop();
+  }
+
   private toggleFilter(tagId: string): void {
     if (!tagId) return;
 
     const wasActive = this.activeFilters.has(tagId);
 
+    if (!wasActive && this.isAtLimit()) {
+      console.log(
+        `[Filter] ${tagId}: limit of ${this.maxActiveFilters} reached`
+      );
+      this.announceLimit();
+      return;
+    }
+
     if (wasActive) {
       this.activeFilters.delete(tagId);
     } else {
@@ -176,6 +654,11 @@ class FilterInstance {
 
     console.log(`[Filter] ${tagId}: ${wasActive ? "OFF" : "ON"}`);
 
+    if (!wasActive) {
+      this.tagSearch?.addRecentTag(tagId);
+    }
+
+    this.currentPage = 1;
     this.updateUI();
     this.filterItems();
     this.debouncedUpdateURL();
@@ -183,11 +666,330 @@ class FilterInstance {
     trackFilterChange(this.config.type, tagId, !wasActive);
   }
 
+  private toggleFacet(facetId: FacetId, value: string): void {
+    const values = this.activeFacets.get(facetId) ?? new Set<string>();
+    const wasActive = values.has(value);
+
+    if (wasActive) {
+      values.delete(value);
+    } else {
+      values.add(value);
+    }
+
+    if (values.size > 0) {
+      this.activeFacets.set(facetId, values);
+    } else {
+      this.activeFacets.delete(facetId);
+    }
+
+    console.log(`[Filter] ${facetId}=${value}: ${wasActive ? "OFF" : "ON"}`);
+
+    this.currentPage = 1;
+    this.updateUI();
+    this.filterItems();
+    this.debouncedUpdateURL();
+
+    trackFilterChange(this.config.type, `${facetId}:${value}`, !wasActive);
+  }
+
+  private setRangeBound(
+    facetId: FacetId,
+    bound: keyof FacetRange,
+    value: string | null
+  ): void {
+    const range = {
+      ...(this.activeRanges.get(facetId) ?? { from: null, to: null }),
+      [bound]: value,
+    };
+
+    if (range.from !== null || range.to !== null) {
+      this.activeRanges.set(facetId, range);
+    } else {
+      this.activeRanges.delete(facetId);
+    }
+
+    console.log(`[Filter] ${facetId} ${bound}: ${value ?? "any"}`);
+
+    this.currentPage = 1;
+    this.updateUI();
+    this.filterItems();
+    this.debouncedUpdateURL();
+
+    trackFilterChange(
+      this.config.type,
+      `${facetId}:${bound}:${value ?? "any"}`,
+      value !== null
+    );
+  }
+
+  private setMatchMode(mode: FilterMatchMode): void {
+    if (mode === this.matchMode) return;
+
+    console.log(`[Filter] Match mode: ${mode}`);
+
+    this.matchMode = mode;
+    this.currentPage = 1;
+    this.updateUI();
+    this.filterItems();
+    this.updateURL();
+  }
+
+  private setSortOrder(sort: SortOrder): void {
+    if (sort === this.sortOrder) return;
+
+    console.log(`[Filter] Sort: ${sort}`);
+
+    this.sortOrder = sort;
+    this.currentPage = 1;
+    this.updateUI();
+    this.reorderItems();
+    this.updateURL();
+  }
+
+  private getSortButton(sort: string): HTMLElement | null {
+    return (
+      Array.from(
+        this.elements.sort?.querySelectorAll<HTMLElement>("[data-sort]") ?? []
+      ).find((btn) => btn.dataset["sort"] === sort) ?? null
+    );
+  }
+
+  /**
+   * Order entries by the current sort, falling back to the page order.
+   * "newest" is the page order itself, which keeps pinned projects first.
+   */
+  private compareEntries = (a: FilterEntry, b: FilterEntry): number => {
+    const byPageOrder = a.index - b.index;
+
+    switch (this.sortOrder) {
+      case "oldest":
+        return a.date.localeCompare(b.date) || byPageOrder;
+      case "title":
+        return (
+          a.title.localeCompare(b.title, undefined, { sensitivity: "base" }) ||
+          byPageOrder
+        );
+      case "reading-time":
+        return a.readingMinutes - b.readingMinutes || byPageOrder;
+      case "featured":
+        return Number(b.featured) - Number(a.featured) || byPageOrder;
+      default:
+        return byPageOrder;
+    }
+  };
+
+  /**
+   * Sort entries and move their elements into the same order
+   */
+  private sortEntries(): void {
+    const parent = this.entries[0]?.element.parentElement;
+    if (!parent) return;
+
+    this.entries.sort(this.compareEntries);
+    this.entries.forEach(({ element }) => {
+      removeClass(element, "border-b-0");
+      parent.appendChild(element);
+    });
+
+    const last = this.entries[this.entries.length - 1];
+    if (last) addClass(last.element, "border-b-0");
+  }
+
+  /**
+   * Re-sort the list, sliding items from their old position to the new one
+   * unless the user prefers reduced motion
+   */
+  private reorderItems(): void {
+    requestAnimationFrame(() => {
+      const before = new Map<HTMLElement, number>();
+
+      if (!prefersReducedMotion()) {
+        this.entries.forEach(({ element }) => {
+          if (element.style.display !== "none") {
+            before.set(element, element.getBoundingClientRect().top);
+          }
+        });
+      }
+
+      this.sortEntries();
+      this.renderItems();
+
+      before.forEach((top, element) => {
+        if (element.style.display === "none") return;
+
+        const delta = top - element.getBoundingClientRect().top;
+        if (delta === 0) return;
+
+        element.animate(
+          [{ transform: `translateY(${delta}px)` }, { transform: "none" }],
+          { duration: REORDER_DURATION, easing: "ease-out" }
+        );
+      });
+    });
+  }
+
+  private isAtLimit(): boolean {
+    return (
+      this.maxActiveFilters > 0 &&
+      this.activeFilters.size >= this.maxActiveFilters
+    );
+  }
+
+  /**
+   * Re-announce the limit message after a blocked selection
+   */
+  private announceLimit(): void {
+    const { limitMessage } = this.elements;
+    if (!limitMessage) return;
+
+    setText(limitMessage, "");
+    requestAnimationFrame(() => {
+      setText(limitMessage, this.getLimitMessage());
+    });
+  }
+
+  private getLimitMessage(): string {
+    return `Up to ${this.maxActiveFilters} filters · remove one to add another`;
+  }
+
+  private setGroupExpanded(toggle: HTMLElement, isExpanded: boolean): void {
+    const groupId = toggle.getAttribute("aria-controls");
+    const group = groupId ? getElementById(groupId) : null;
+    const icon = toggle.querySelector<HTMLElement>("[data-group-icon]");
+
+    setAttribute(toggle, "aria-expanded", String(isExpanded));
+    if (icon) setText(icon, isExpanded ? "−" : "+");
+    if (!group) return;
+
+    if (isExpanded) {
+      removeClass(group, "hidden");
+      addClass(group, "flex");
+    } else {
+      removeClass(group, "flex");
+      addClass(group, "hidden");
+    }
+  }
+
+  /**
+   * Open the groups that contain an active child tag (e.g., from the URL)
+   */
+  private expandActiveGroups(): void {
+    this.elements.filterTags
+      .querySelectorAll<HTMLElement>(".filter-group-toggle")
+      .forEach((toggle) => {
+        const groupId = toggle.getAttribute("aria-controls");
+        const group = groupId ? getElementById(groupId) : null;
+        const hasActiveChild = Array.from(
+          group?.querySelectorAll<HTMLElement>(".filter-tag-btn") ?? []
+        ).some((btn) => this.activeFilters.has(btn.dataset["tagId"] ?? ""));
+
+        if (hasActiveChild) {
+          this.setGroupExpanded(toggle, true);
+        }
+      });
+  }
+
+  /**
+   * Tags that satisfy each active filter (the tag plus its descendants)
+   */
+  private getFilterTagSets(): Set<string>[] {
+    return Array.from(this.activeFilters).map(
+      (tagId) => new Set([tagId, ...(this.tagDescendants[tagId] ?? [])])
+    );
+  }
+
+  private isMatch(
+    itemTags: readonly string[],
+    tagSets: Set<string>[]
+  ): boolean {
+    if (tagSets.length === 0) return true;
+
+    const matchesSet = (tagSet: Set<string>) =>
+      itemTags.some((tag) => tagSet.has(tag));
+
+    return this.matchMode === "all"
+      ? tagSets.every(matchesSet)
+      : tagSets.some(matchesSet);
+  }
+
+  /**
+   * Whether an item has one of the selected values of a facet
+   */
+  private matchesFacet(
+    entry: FilterEntry,
+    facet: FacetGroup,
+    selected: ReadonlySet<string> | undefined
+  ): boolean {
+    if (!selected || selected.size === 0) return true;
+
+    const itemValues = entry.values.get(facet.id) ?? [];
+
+    return Array.from(selected).some((value) => {
+      const range = facet.ranges.get(value);
+      if (!range) return itemValues.includes(value);
+
+      return itemValues.some((itemValue) => {
+        const n = Number(itemValue);
+        return n >= range.min && n < range.max;
+      });
+    });
+  }
+
+  /**
+   * Whether an item's value lies between the bounds of a range facet
+   */
+  private matchesRange(
+    entry: FilterEntry,
+    facet: FacetGroup,
+    range: FacetRange | undefined
+  ): boolean {
+    if (!range) return true;
+
+    return (entry.values.get(facet.id) ?? []).some((itemValue) => {
+      const n = Number(itemValue);
+      return (
+        (range.from === null || n >= Number(range.from)) &&
+        (range.to === null || n <= Number(range.to))
+      );
+    });
+  }
+
+  /**
+   * Whether an item matches every active facet, optionally ignoring one
+   * (used to count the values of that facet)
+   */
+  private matchesFacets(entry: FilterEntry, except?: FacetId): boolean {
+    return this.facetGroups.every((facet) => {
+      if (facet.id === except) return true;
+
+      return facet.control === "range"
+        ? this.matchesRange(entry, facet, this.activeRanges.get(facet.id))
+        : this.matchesFacet(entry, facet, this.activeFacets.get(facet.id));
+    });
+  }
+
+  private hasActiveFilters(): boolean {
+    return (
+      this.activeFilters.size > 0 ||
+      this.activeFacets.size > 0 ||
+      this.activeRanges.size > 0
+    );
+  }
+
   private clearAllFilters(): void {
     console.log("[Filter] Clearing all filters");
 
-    const previousCount = this.activeFilters.size;
+    const previousCount =
+      this.activeFilters.size +
+      Array.from(this.activeFacets.values()).reduce(
+        (sum, values) => sum + values.size,
+        0
+      ) +
+      this.activeRanges.size;
     this.activeFilters.clear();
+    this.activeFacets.clear();
+    this.activeRanges.clear();
+    this.currentPage = 1;
 
     this.updateUI();
     this.filterItems();
@@ -221,52 +1023,350 @@ class FilterInstance {
         }
       });
 
-      if (this.activeFilters.size === 0) {
+      if (!this.hasActiveFilters()) {
         addClass(this.elements.clearBtn, "hidden");
       } else {
         removeClass(this.elements.clearBtn, "hidden");
       }
+
+      this.updateMatchModeUI();
+      this.updateSortUI();
+      this.updateFacetUI();
+      this.updateLimitUI();
     });
   }
 
+  private updateFacetUI(): void {
+    this.elements.facets
+      ?.querySelectorAll<HTMLElement>("[data-facet]")
+      .forEach((group) => {
+        const facetId = group.dataset["facet"] as FacetId;
+        const selected = this.activeFacets.get(facetId);
+        const range = this.activeRanges.get(facetId);
+
+        group
+          .querySelectorAll<HTMLSelectElement>("[data-facet-bound]")
+          .forEach((select) => {
+            const bound = select.dataset["facetBound"] === "to" ? "to" : "from";
+            select.value = range?.[bound] ?? "";
+          });
+
+        group
+          .querySelectorAll<HTMLButtonElement>(".facet-value-btn")
+          .forEach((btn) => {
+            this.setPressed(
+              btn,
+              selected?.has(btn.dataset["facetValue"] ?? "") ?? false
+            );
+          });
+      });
+  }
+
+  /**
+   * Pressed state and colours of a toggle button (match mode, facet, sort)
+   */
+  private setPressed(btn: HTMLElement, isActive: boolean): void {
+    setAttribute(btn, "aria-pressed", String(isActive));
+    if (isActive) {
+      removeClass(
+        btn,
+        "bg-white",
+        "text-black",
+        "hover:bg-black",
+        "hover:text-white"
+      );
+      addClass(btn, "bg-black", "text-white");
+    } else {
+      removeClass(btn, "bg-black", "text-white");
+      addClass(
+        btn,
+        "bg-white",
+        "text-black",
+        "hover:bg-black",
+        "hover:text-white"
+      );
+    }
+  }
+
+  private updateMatchModeUI(): void {
+    this.elements.matchMode
+      ?.querySelectorAll<HTMLButtonElement>("[data-match-mode]")
+      .forEach((btn) => {
+        this.setPressed(btn, btn.dataset["matchMode"] === this.matchMode);
+      });
+  }
+
+  private updateSortUI(): void {
+    this.elements.sort
+      ?.querySelectorAll<HTMLButtonElement>("[data-sort]")
+      .forEach((btn) => {
+        this.setPressed(btn, btn.dataset["sort"] === this.sortOrder);
+      });
+  }
+
+  private updateLimitUI(): void {
+    if (this.elements.limitMessage) {
+      setText(
+        this.elements.limitMessage,
+        this.isAtLimit() ? this.getLimitMessage() : ""
+      );
+    }
+  }
+
+  /**
+   * Disabled values stay visible but can't be selected
+   */
+  private setAvailable(btn: HTMLElement, isAvailable: boolean): void {
+    if (isAvailable) {
+      removeAttribute(btn, "aria-disabled");
+      removeClass(btn, "opacity-50", "cursor-not-allowed");
+    } else {
+      setAttribute(btn, "aria-disabled", "true");
+      addClass(btn, "opacity-50", "cursor-not-allowed");
+    }
+  }
+
+  /**
+   * Show how many items each tag would leave under the current selection.
+   * Unselected tags with no results, or past the filter limit, are disabled.
+   */
+  private updateTagCounts(tagSets: Set<string>[]): void {
+    const isAtLimit = this.isAtLimit();
+    const candidates = this.entries.filter(
+      (entry) =>
+        this.matchesFacets(entry) &&
+        (this.matchMode === "any" || this.isMatch(entry.tags, tagSets))
+    );
+
+    this.elements.filterTags
+      .querySelectorAll<HTMLButtonElement>(".filter-tag-btn")
+      .forEach((btn) => {
+        const tagId = btn.dataset["tagId"] ?? "";
+        const tagSet = new Set([tagId, ...(this.tagDescendants[tagId] ?? [])]);
+        const count = candidates.filter((entry) =>
+          entry.tags.some((tag) => tagSet.has(tag))
+        ).length;
+        const isActive = this.activeFilters.has(tagId);
+        const countElement = btn.querySelector<HTMLElement>("[data-tag-count]");
+
+        this.tagCounts.set(tagId, count);
+        if (countElement) setText(countElement, `(${count})`);
+        this.setAvailable(btn, isActive || (!isAtLimit && count > 0));
+      });
+
+    this.tagSearch?.renderRecentTags();
+  }
+
+  /**
+   * Show how many items each facet value would leave. Values within a facet
+   * are alternatives, so each is counted against the other facets only.
+   */
+  private updateFacetCounts(tagSets: Set<string>[]): void {
+    this.facetGroups.forEach((facet) => {
+      const candidates = this.entries.filter(
+        (entry) =>
+          this.isMatch(entry.tags, tagSets) &&
+          this.matchesFacets(entry, facet.id)
+      );
+
+      if (facet.control === "range") {
+        this.updateRangeCounts(facet, candidates);
+        return;
+      }
+
+      const selected = this.activeFacets.get(facet.id);
+
+      this.elements.facets
+        ?.querySelectorAll<HTMLButtonElement>(
+          `[data-facet="${facet.id}"] .facet-value-btn`
+        )
+        .forEach((btn) => {
+          const value = btn.dataset["facetValue"] ?? "";
+          const count = candidates.filter((entry) =>
+            this.matchesFacet(entry, facet, new Set([value]))
+          ).length;
+          const countElement =
+            btn.querySelector<HTMLElement>("[data-facet-count]");
+
+          if (countElement) setText(countElement, `(${count})`);
+          this.setAvailable(btn, (selected?.has(value) ?? false) || count > 0);
+        });
+    });
+  }
+
+  /**
+   * Count each from/to option against the other bound; options that would
+   * leave nothing (including those past the other bound) are disabled
+   */
+  private updateRangeCounts(
+    facet: FacetGroup,
+    candidates: readonly FilterEntry[]
+  ): void {
+    const range = this.activeRanges.get(facet.id) ?? { from: null, to: null };
+
+    this.elements.facets
+      ?.querySelectorAll<HTMLSelectElement>(
+        `[data-facet="${facet.id}"] [data-facet-bound]`
+      )
+      .forEach((select) => {
+        const bound = select.dataset["facetBound"] === "to" ? "to" : "from";
+
+        select
+          .querySelectorAll<HTMLOptionElement>("[data-facet-value]")
+          .forEach((option) => {
+            const value = option.dataset["facetValue"] ?? "";
+            const count = candidates.filter((entry) =>
+              this.matchesRange(entry, facet, { ...range, [bound]: value })
+            ).length;
+
+            setText(option, `${option.dataset["facetLabel"]} (${count})`);
+            option.disabled = range[bound] !== value && count === 0;
+          });
+      });
+  }
+
   private filterItems(): void {
-    let visibleCount = 0;
-    const hasFilters = this.activeFilters.size > 0;
+    requestAnimationFrame(() => this.renderItems());
+  }
 
-    requestAnimationFrame(() => {
-      this.elements.items.forEach((item) => {
-        const itemTagsStr = getAttribute(item, this.config.tagAttribute);
-        const itemTags = itemTagsStr
-          ? itemTagsStr
-              .split(",")
-              .map((t) => t.trim())
-              .filter(Boolean)
-          : [];
-
-        const isVisible =
-          !hasFilters || itemTags.some((tag) => this.activeFilters.has(tag));
-
-        item.style.display = isVisible ? "" : "none";
-
-        if (isVisible) {
-          visibleCount++;
+  /**
+   * Show the current page of matching items and refresh counts
+   */
+  private renderItems(): void {
+    const tagSets = this.getFilterTagSets();
+
+    const matching = this.entries
+      .filter(
+        (entry) =>
+          this.isMatch(entry.tags, tagSets) && this.matchesFacets(entry)
+      )
+      .map((entry) => entry.element);
+
+    const totalPages = this.getTotalPages(matching.length);
+    this.currentPage = Math.min(Math.max(this.currentPage, 1), totalPages);
+
+    const start = (this.currentPage - 1) * this.pageSize;
+    const end = this.pageSize > 0 ? start + this.pageSize : matching.length;
+    const visible = new Set(matching.slice(start, end));
+
+    this.elements.items.forEach((item) => {
+      item.style.display = visible.has(item) ? "" : "none";
+    });
+
+    this.updatePagination(totalPages);
+    this.updateResultsCount(matching.length, totalPages);
+    this.updateTagCounts(tagSets);
+    this.updateFacetCounts(tagSets);
+  }
+
+  private getTotalPages(count: number): number {
+    return this.pageSize > 0
+      ? Math.max(1, Math.ceil(count / this.pageSize))
+      : 1;
+  }
+
+  private getPageHref(page: number): string {
+    const url = new URL(window.location.href);
+
+    if (page > 1) {
+      url.searchParams.set("page", String(page));
+    } else {
+      url.searchParams.delete("page");
+    }
+
+    return `${url.pathname}${url.search}`;
+  }
+
+  private updatePagination(totalPages: number): void {
+    const { pagination } = this.elements;
+    if (!pagination || this.pageSize === 0) return;
+
+    if (totalPages <= 1) {
+      addClass(pagination, "hidden");
+    } else {
+      removeClass(pagination, "hidden");
+    }
+
+    pagination
+      .querySelectorAll<HTMLElement>("[data-page-item]")
+      .forEach((item) => {
+        const page = Number(item.dataset["pageItem"]);
+        const link = item.querySelector<HTMLAnchorElement>("[data-page]");
+        const isCurrent = page === this.currentPage;
+
+        item.style.display = page <= totalPages ? "" : "none";
+        if (!link) return;
+
+        link.href = this.getPageHref(page);
+        if (isCurrent) {
+          setAttribute(link, "aria-current", "page");
+          removeClass(
+            link,
+            "bg-white",
+            "text-black",
+            "hover:bg-black",
+            "hover:text-white"
+          );
+          addClass(link, "bg-black", "text-white");
+        } else {
+          removeAttribute(link, "aria-current");
+          removeClass(link, "bg-black", "text-white");
+          addClass(
+            link,
+            "bg-white",
+            "text-black",
+            "hover:bg-black",
+            "hover:text-white"
+          );
         }
       });
 
-      this.updateResultsCount(visibleCount);
-    });
+    const prev =
+      pagination.querySelector<HTMLAnchorElement>("[data-page-prev]");
+    const next =
+      pagination.querySelector<HTMLAnchorElement>("[data-page-next]");
+    this.updateStepLink(prev, this.currentPage - 1, this.currentPage > 1);
+    this.updateStepLink(
+      next,
+      this.currentPage + 1,
+      this.currentPage < totalPages
+    );
   }
 
-  private updateResultsCount(count: number): void {
+  private updateStepLink(
+    link: HTMLAnchorElement | null,
+    page: number,
+    isEnabled: boolean
+  ): void {
+    if (!link) return;
+
+    link.dataset["page"] = String(page);
+
+    // Disabled step links have no href, so they never point past the ends
+    if (isEnabled) {
+      link.href = this.getPageHref(page);
+      removeClass(link, "invisible");
+    } else {
+      link.removeAttribute("href");
+      addClass(link, "invisible");
+    }
+  }
+
+  private updateResultsCount(count: number, totalPages: number): void {
     const total = this.elements.items.length;
     const typeLabel = this.config.type;
 
-    const message =
-      this.activeFilters.size > 0
-        ? `Showing ${count} of ${total} ${typeLabel}`
-        : `${total} ${typeLabel} total`;
-
-    setText(this.elements.resultsCount, message);
+    const modeLabel =
+      this.matchMode === "all" && this.activeFilters.size > 1
+        ? " with all selected tags"
+        : "";
+    const message = this.hasActiveFilters()
+      ? `Showing ${count} of ${total} ${typeLabel}${modeLabel}`
+      : `${total} ${typeLabel} total`;
+    const pageLabel =
+      totalPages > 1 ? ` · Page ${this.currentPage} of ${totalPages}` : "";
+
+    setText(this.elements.resultsCount, `${message}${pageLabel}`);
   }
 
   private updateURL(): void {
@@ -280,6 +1380,54 @@ class FilterInstance {
         url.searchParams.delete("tags");
       }
 
+      if (this.matchMode === "all") {
+        url.searchParams.set("match", "all");
+      } else {
+        url.searchParams.delete("match");
+      }
+
+      if (this.sortOrder !== DEFAULT_SORT_ORDER) {
+        url.searchParams.set("sort", this.sortOrder);
+      } else {
+        url.searchParams.delete("sort");
+      }
+
+      this.facetGroups.forEach((facet) => {
+        if (facet.control === "range") {
+          const range = this.activeRanges.get(facet.id);
+          const bounds = [
+            [facet.fromParam, range?.from],
+            [facet.toParam, range?.to],
+          ] as const;
+
+          bounds.forEach(([param, value]) => {
+            if (value) {
+              url.searchParams.set(param, value);
+            } else {
+              url.searchParams.delete(param);
+            }
+          });
+          return;
+        }
+
+        const values = this.activeFacets.get(facet.id);
+
+        if (values && values.size > 0) {
+          url.searchParams.set(
+            facet.param,
+            Array.from(values).sort().join(",")
+          );
+        } else {
+          url.searchParams.delete(facet.param);
+        }
+      });
+
+      if (this.currentPage > 1) {
+        url.searchParams.set("page", String(this.currentPage));
+      } else {
+        url.searchParams.delete("page");
+      }
+
       window.history.replaceState({}, "", url);
     } catch (error) {
       console.error("[Filter] Failed to update URL:", error);
@@ -312,6 +1460,8 @@ class FilterInstance {
     console.log(`[Filter] Destroying ${this.config.type} instance`);
     this.abortController.abort();
     this.activeFilters.clear();
+    this.activeFacets.clear();
+    this.activeRanges.clear();
   }
 }
 
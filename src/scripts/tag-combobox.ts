@@ -0,0 +1,419 @@
+/**
+ * Tag Combobox Script - Type-ahead Tag Search for FilterBar
+ *
+ * ARIA 1.2 combobox with a listbox popup (list autocomplete, manual
+ * selection): typing searches the bar's tags with `searchTags`, arrow keys
+ * move through the options, Enter adds the highlighted tag and Escape
+ * closes the list (or clears the input). Recently used tags are kept in
+ * localStorage and shown as quick chips.
+ *
+ * Owned by `FilterInstance` (see `filter.ts`), which decides what a
+ * selection does.
+ */
+
+import type { Tag, TagId } from "@/types/index";
+import { getTagById, searchTags } from "@/config/tags.config";
+import {
+  addClass,
+  removeClass,
+  setAttribute,
+  removeAttribute,
+  getAttribute,
+  setText,
+} from "@/utils/use-dom-utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TagOptionState {
+  isActive: boolean;
+  isDisabled: boolean;
+  count: number | null;
+}
+
+interface TagComboboxOptions {
+  /** Tags that can be searched (the tags shown in the bar) */
+  tagIds: ReadonlySet<string>;
+  /** Current state of a tag in the bar */
+  getTagState: (tagId: string) => TagOptionState;
+  onSelect: (tagId: string) => void;
+  signal: AbortSignal;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_RESULTS = 8;
+
+const MAX_RECENT = 5;
+
+// ============================================================================
+// Tag Combobox Class
+// ============================================================================
+
+export class TagCombobox {
+  private options: TagComboboxOptions;
+  private results: Tag[] = [];
+  private activeIndex = -1;
+  private storageKey: string;
+  private elements: {
+    input: HTMLInputElement;
+    listbox: HTMLElement;
+    status: HTMLElement | null;
+    recent: HTMLElement | null;
+    recentChips: HTMLElement | null;
+  };
+
+  constructor(root: HTMLElement, options: TagComboboxOptions) {
+    const input = root.querySelector<HTMLInputElement>("[role='combobox']");
+    const listbox = root.querySelector<HTMLElement>("[role='listbox']");
+
+    if (!input || !listbox) {
+      throw new Error(`[TagSearch] Combobox elements not found in #${root.id}`);
+    }
+
+    this.options = options;
+    this.storageKey = root.dataset["recentKey"] ?? "";
+    this.elements = {
+      input,
+      listbox,
+      status: root.querySelector<HTMLElement>("[data-tag-search-status]"),
+      recent: root.querySelector<HTMLElement>("[data-recent-tags]"),
+      recentChips: root.querySelector<HTMLElement>("[data-recent-chips]"),
+    };
+
+    this.attachEventListeners();
+    this.renderRecentTags();
+  }
+
+  private attachEventListeners(): void {
+    const { signal } = this.options;
+    const { input, listbox, recentChips } = this.elements;
+
+    input.addEventListener("input", this.handleInput, { signal });
+    input.addEventListener("keydown", this.handleKeyDown, { signal });
+    input.addEventListener("blur", () => this.close(), { signal });
+    // Keep focus in the input while an option is clicked
+    listbox.addEventListener("mousedown", (e) => e.preventDefault(), {
+      signal,
+    });
+    listbox.addEventListener("click", this.handleOptionClick, { signal });
+    recentChips?.addEventListener("click", this.handleChipClick, { signal });
+  }
+
+  private handleInput = (): void => {
+    this.search();
+    this.open(-1);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const isOpen = this.isOpen();
+
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        if (event.altKey) {
+          this.search();
+          this.open(-1);
+        } else if (!isOpen) {
+          this.search();
+          this.open(0);
+        } else {
+          this.moveActive(1);
+        }
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        if (event.altKey) {
+          this.close();
+        } else if (!isOpen) {
+          this.search();
+          this.open(this.results.length - 1);
+        } else {
+          this.moveActive(-1);
+        }
+        break;
+      case "Enter":
+        if (isOpen && this.activeIndex >= 0) {
+          event.preventDefault();
+          this.select(this.results[this.activeIndex]);
+        }
+        break;
+      case "Escape":
+        event.preventDefault();
+        if (isOpen) {
+          this.close();
+        } else {
+          this.elements.input.value = "";
+        }
+        break;
+      case "Tab":
+        this.close();
+        break;
+    }
+  };
+
+  private handleOptionClick = (event: Event): void => {
+    const option = (event.target as HTMLElement).closest<HTMLElement>(
+      "[role='option']"
+    );
+    const index = Number(option?.dataset["index"]);
+
+    if (option && index >= 0) {
+      this.select(this.results[index]);
+    }
+  };
+
+  private handleChipClick = (event: Event): void => {
+    const chip = (event.target as HTMLElement).closest<HTMLElement>(
+      "[data-tag-id]"
+    );
+    const tagId = chip?.dataset["tagId"];
+
+    if (chip && tagId && getAttribute(chip, "aria-disabled") !== "true") {
+      event.preventDefault();
+      this.options.onSelect(tagId);
+    }
+  };
+
+  /**
+   * Searchable tags matching the input (recent tags when it's empty),
+   * label matches first
+   */
+  private search(): void {
+    const query = this.elements.input.value.trim().toLowerCase();
+    const isSearchable = (tag: Tag) =>
+      this.options.tagIds.has(tag.id) &&
+      !this.options.getTagState(tag.id).isActive;
+
+    const matches = query
+      ? [...searchTags(query)].sort(
+          (a, b) =>
+            Number(b.label.toLowerCase().startsWith(query)) -
+            Number(a.label.toLowerCase().startsWith(query))
+        )
+      : this.getRecentTags();
+
+    this.results = matches.filter(isSearchable).slice(0, MAX_RESULTS);
+  }
+
+  private select(tag: Tag | undefined): void {
+    if (!tag || this.options.getTagState(tag.id).isDisabled) return;
+
+    this.elements.input.value = "";
+    this.close();
+    this.options.onSelect(tag.id);
+  }
+
+  private isOpen(): boolean {
+    return this.elements.input.getAttribute("aria-expanded") === "true";
+  }
+
+  /**
+   * Render the results and show the listbox (if there are any)
+   */
+  private open(activeIndex: number): void {
+    const { input, listbox } = this.elements;
+
+    listbox.replaceChildren(
+      ...this.results.map((tag, index) => this.createOption(tag, index))
+    );
+
+    if (this.results.length === 0) {
+      this.close();
+    } else {
+      removeClass(listbox, "hidden");
+      setAttribute(input, "aria-expanded", "true");
+      this.setActiveIndex(activeIndex);
+    }
+
+    this.announce(this.getResultsMessage());
+  }
+
+  private getResultsMessage(): string {
+    const count = this.results.length;
+
+    if (count > 0) return `${count} ${count === 1 ? "tag" : "tags"} found`;
+    return this.elements.input.value.trim() ? "No matching tags" : "";
+  }
+
+  private close(): void {
+    const { input, listbox } = this.elements;
+
+    addClass(listbox, "hidden");
+    setAttribute(input, "aria-expanded", "false");
+    removeAttribute(input, "aria-activedescendant");
+    this.activeIndex = -1;
+  }
+
+  private createOption(tag: Tag, index: number): HTMLElement {
+    const { isDisabled, count } = this.options.getTagState(tag.id);
+    const option = document.createElement("li");
+    const label = document.createElement("span");
+
+    option.id = `${this.elements.listbox.id}-${tag.id}`;
+    option.dataset["index"] = String(index);
+    option.className =
+      "flex items-baseline justify-between gap-4 px-4 py-2 text-sm font-bold uppercase tracking-[0.15em] cursor-pointer";
+    setAttribute(option, "role", "option");
+    setAttribute(option, "aria-selected", "false");
+    label.textContent = tag.label;
+    option.append(label);
+
+    if (count !== null) {
+      const countElement = document.createElement("span");
+      countElement.className = "opacity-60";
+      countElement.textContent = `(${count})`;
+      option.append(countElement);
+    }
+
+    if (isDisabled) {
+      setAttribute(option, "aria-disabled", "true");
+      addClass(option, "opacity-50", "cursor-not-allowed");
+    }
+
+    return option;
+  }
+
+  /**
+   * Move the highlight one option down or up, wrapping at both ends
+   */
+  private moveActive(step: 1 | -1): void {
+    const count = this.results.length;
+    if (count === 0) return;
+
+    const from =
+      this.activeIndex === -1 ? (step === 1 ? -1 : count) : this.activeIndex;
+    this.setActiveIndex((from + step + count) % count);
+  }
+
+  /**
+   * Highlight an option (-1 for none) and point `aria-activedescendant`
+   * at it
+   */
+  private setActiveIndex(index: number): void {
+    const { input, listbox } = this.elements;
+    const options = Array.from(
+      listbox.querySelectorAll<HTMLElement>("[role='option']")
+    );
+
+    this.activeIndex = index;
+
+    options.forEach((option, i) => {
+      const isActive = i === this.activeIndex;
+
+      setAttribute(option, "aria-selected", String(isActive));
+      if (isActive) {
+        addClass(option, "bg-black", "text-white");
+        option.scrollIntoView({ block: "nearest" });
+      } else {
+        removeClass(option, "bg-black", "text-white");
+      }
+    });
+
+    const active = options[this.activeIndex];
+    if (active) {
+      setAttribute(input, "aria-activedescendant", active.id);
+    } else {
+      removeAttribute(input, "aria-activedescendant");
+    }
+  }
+
+  private announce(message: string): void {
+    if (this.elements.status) setText(this.elements.status, message);
+  }
+
+  // ==========================================================================
+  // Recent Tags
+  // ==========================================================================
+
+  private getRecentTagIds(): string[] {
+    if (!this.storageKey) return [];
+
+    try {
+      const stored: unknown = JSON.parse(
+        localStorage.getItem(this.storageKey) ?? "[]"
+      );
+      return Array.isArray(stored)
+        ? stored.filter((id): id is string => typeof id === "string")
+        : [];
+    } catch (error) {
+      console.warn("[TagSearch] Could not read recent tags:", error);
+      return [];
+    }
+  }
+
+  private getRecentTags(): Tag[] {
+    return this.getRecentTagIds().flatMap((id) => {
+      const tag = getTagById(id as TagId);
+      return tag && this.options.tagIds.has(tag.id) ? [tag] : [];
+    });
+  }
+
+  /**
+   * Remember a tag as recently used (most recent first)
+   */
+  public addRecentTag(tagId: string): void {
+    if (!this.storageKey || !this.options.tagIds.has(tagId)) return;
+
+    const recent = [
+      tagId,
+      ...this.getRecentTagIds().filter((id) => id !== tagId),
+    ].slice(0, MAX_RECENT);
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(recent));
+    } catch (error) {
+      console.warn("[TagSearch] Could not save recent tags:", error);
+    }
+
+    this.renderRecentTags();
+  }
+
+  /**
+   * Quick chips for recent tags; active or unavailable ones are disabled
+   */
+  public renderRecentTags(): void {
+    const { recent, recentChips } = this.elements;
+    if (!recent || !recentChips) return;
+
+    const tags = this.getRecentTags();
+
+    recentChips.replaceChildren(
+      ...tags.map((tag) => {
+        const { isActive, isDisabled } = this.options.getTagState(tag.id);
+        const chip = document.createElement("button");
+
+        chip.type = "button";
+        chip.dataset["tagId"] = tag.id;
+        chip.className =
+          "text-sm font-bold uppercase tracking-[0.15em] px-3 py-1 border-2 border-black bg-white text-black hover:bg-black hover:text-white transition-colors duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black focus-visible:ring-offset-2";
+        chip.textContent = tag.label;
+        setAttribute(chip, "aria-label", `Filter by ${tag.label}`);
+
+        if (isActive || isDisabled) {
+          setAttribute(chip, "aria-disabled", "true");
+          addClass(chip, "opacity-50", "cursor-not-allowed");
+        }
+
+        return chip;
+      })
+    );
+
+    if (tags.length > 0) {
+      removeClass(recent, "hidden");
+      addClass(recent, "flex");
+    } else {
+      removeClass(recent, "flex");
+      addClass(recent, "hidden");
+    }
+  }
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { TagOptionState };
@@ -0,0 +1,94 @@
+/**
+ * Table of Contents Script - Scroll-spy
+ *
+ * Highlights the table of contents link for the section currently
+ * in view, using IntersectionObserver on the linked headings.
+ */
+
+import {
+  getElementById,
+  querySelector,
+  querySelectorAll,
+  addClass,
+  removeClass,
+  setAttribute,
+  removeAttribute,
+  getAttribute,
+} from "@/utils/use-dom-utils";
+
+// ============================================================================
+// State Management
+// ============================================================================
+
+let observer: IntersectionObserver | null = null;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function setActiveLink(
+  links: readonly HTMLAnchorElement[],
+  slug: string
+): void {
+  links.forEach((link) => {
+    const isActive = getAttribute(link, "data-toc-link") === slug;
+
+    if (isActive) {
+      setAttribute(link, "aria-current", "location");
+      removeClass(link, "text-black/50");
+      addClass(link, "text-black");
+    } else {
+      removeAttribute(link, "aria-current");
+      removeClass(link, "text-black");
+      addClass(link, "text-black/50");
+    }
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function initializeTableOfContents(): void {
+  destroyTableOfContents();
+
+  const toc = querySelector<HTMLElement>("[data-toc]");
+  if (!toc || !("IntersectionObserver" in window)) return;
+
+  const links = Array.from(
+    querySelectorAll<HTMLAnchorElement>("[data-toc] [data-toc-link]")
+  );
+  const headings = links
+    .map((link) => getElementById(link.dataset["tocLink"] ?? ""))
+    .filter((heading): heading is HTMLElement => heading !== null);
+
+  if (headings.length === 0) return;
+
+  const visible = new Set<string>();
+
+  observer = new IntersectionObserver(
+    (entries) => {
+      entries.forEach((entry) => {
+        if (entry.isIntersecting) {
+          visible.add(entry.target.id);
+        } else {
+          visible.delete(entry.target.id);
+        }
+      });
+
+      // The first heading in document order that is inside the band wins
+      const current = headings.find((heading) => visible.has(heading.id));
+      if (current) {
+        setActiveLink(links, current.id);
+      }
+    },
+    { rootMargin: "-96px 0px -60% 0px" }
+  );
+
+  headings.forEach((heading) => observer?.observe(heading));
+}
+
+export function destroyTableOfContents(): void {
+  observer?.disconnect();
+  observer = null;
+}
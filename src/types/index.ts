@@ -102,6 +102,15 @@ export const CONTENT_TYPES = {
 
 export type ContentType = (typeof CONTENT_TYPES)[keyof typeof CONTENT_TYPES];
 
+export const PUBLISH_STATUSES = {
+  PUBLISHED: "published",
+  DRAFT: "draft",
+  SCHEDULED: "scheduled",
+} as const;
+
+export type PublishStatus =
+  (typeof PUBLISH_STATUSES)[keyof typeof PUBLISH_STATUSES];
+
 /**
  * Base content interface
  */
@@ -112,6 +121,14 @@ export interface BaseContent {
   readonly tags: readonly TagId[];
 }
 
+/**
+ * Author overrides for related content ("writing/<slug>" or "work/<slug>")
+ */
+export interface RelatedOverride {
+  readonly pin: readonly string[];
+  readonly exclude: readonly string[];
+}
+
 /**
  * Writing post with strict typing
  */
@@ -120,11 +137,61 @@ export interface WritingPost extends BaseContent {
   readonly excerpt: string;
   readonly date: ISODate;
   readonly readTime: string;
+  readonly readingMinutes: number;
   readonly slug: Slug;
   readonly dateObj: Date;
-  readonly author?: string;
+  readonly author?: Slug;
   readonly image?: URL;
+  readonly draft: boolean;
+  readonly publishAt?: ISODate;
   readonly published: boolean;
+  readonly series?: Slug;
+  readonly seriesOrder?: number;
+  readonly related?: RelatedOverride;
+  readonly toc: boolean;
+  readonly projects: readonly Slug[];
+}
+
+/**
+ * Author social profile link
+ */
+export interface AuthorSocialLink {
+  readonly label: string;
+  readonly url: URL;
+}
+
+/**
+ * Post author profile
+ */
+export interface Author {
+  readonly id: Slug;
+  readonly name: string;
+  readonly bio: string;
+  readonly avatar?: string;
+  /** Homepage used in structured data (defaults to the author page) */
+  readonly url?: URL;
+  readonly social: readonly AuthorSocialLink[];
+}
+
+/**
+ * Multi-part writing series
+ */
+export interface Series {
+  readonly id: Slug;
+  readonly title: string;
+  readonly description: string;
+}
+
+/**
+ * Position of a post within its series
+ */
+export interface SeriesNavigation {
+  readonly series: Series;
+  readonly posts: readonly WritingPost[];
+  readonly part: number;
+  readonly total: number;
+  readonly previous?: WritingPost;
+  readonly next?: WritingPost;
 }
 
 /**
@@ -137,7 +204,71 @@ export interface WorkProject extends BaseContent {
   readonly client?: string;
   readonly role?: string;
   readonly technologies?: readonly string[];
+  /** Highlighted on the homepage and by the "Featured" sort */
   readonly featured: boolean;
+  /** Listed before every other project, regardless of year */
+  readonly pinned: boolean;
+  /** Position among projects of the same year (lower first) */
+  readonly order?: number;
+  readonly draft: boolean;
+  readonly publishAt?: ISODate;
+  readonly published: boolean;
+  readonly related?: RelatedOverride;
+  readonly toc: boolean;
+  readonly posts: readonly Slug[];
+}
+
+/**
+ * Related content item, mixed across writing and work
+ */
+export interface RelatedItem {
+  readonly key: string;
+  readonly type: ContentType;
+  readonly id: Slug;
+  readonly title: string;
+  readonly description: string;
+  readonly url: string;
+  readonly tags: readonly TagId[];
+  readonly score: number;
+  readonly pinned: boolean;
+}
+
+/**
+ * Link graph node (one per writing post or work project)
+ */
+export interface LinkGraphNode {
+  readonly key: string;
+  readonly type: ContentType;
+  readonly title: string;
+  readonly url: string;
+}
+
+/**
+ * Internal link from one entry's MDX body to another entry
+ */
+export interface LinkGraphEdge {
+  readonly source: string;
+  readonly target: string;
+  readonly text: string;
+  readonly excerpt: string;
+  readonly anchor?: string;
+}
+
+/**
+ * Build-time graph of internal links between entries
+ */
+export interface LinkGraph {
+  readonly nodes: readonly LinkGraphNode[];
+  readonly edges: readonly LinkGraphEdge[];
+}
+
+/**
+ * Incoming link shown in a "Referenced by" section
+ */
+export interface Backlink {
+  readonly source: LinkGraphNode;
+  readonly text: string;
+  readonly excerpt: string;
 }
 
 /**
@@ -172,6 +303,12 @@ export interface Tag {
   readonly category: TagCategory;
   readonly description?: string;
   readonly color?: string;
+  /** Broader tag this one rolls up into (e.g., react → javascript) */
+  readonly parent?: TagId;
+  /** Former ids (renamed or merged tags) that resolve to this tag */
+  readonly aliases?: readonly string[];
+  /** Still valid for existing content, but no longer suggested */
+  readonly deprecated?: boolean;
 }
 
 export interface TagGroup {
@@ -179,6 +316,56 @@ export interface TagGroup {
   readonly tags: readonly Tag[];
 }
 
+/**
+ * Accessible badge colors derived from a tag color
+ */
+export interface ColorPairing {
+  readonly background: string;
+  readonly text: string;
+  /** Text/background contrast ratio */
+  readonly contrast: number;
+  /** True when the background was darkened from the tag color */
+  readonly adjusted: boolean;
+  readonly compliant: boolean;
+}
+
+/**
+ * Tag co-occurrence graph node, positioned for SVG rendering
+ */
+export interface TagGraphNode {
+  readonly tag: Tag;
+  /** Posts and projects using the tag */
+  readonly count: number;
+  readonly x: number;
+  readonly y: number;
+  readonly radius: number;
+  readonly labelX: number;
+  readonly labelY: number;
+  readonly labelAnchor: "start" | "end";
+}
+
+/**
+ * Pair of tags used together on one or more entries
+ */
+export interface TagGraphEdge {
+  readonly source: TagId;
+  readonly target: TagId;
+  /** Entries tagged with both */
+  readonly weight: number;
+  /** SVG path from source to target */
+  readonly path: string;
+  readonly width: number;
+}
+
+/**
+ * Build-time graph of how tags co-occur across content
+ */
+export interface TagGraph {
+  readonly size: number;
+  readonly nodes: readonly TagGraphNode[];
+  readonly edges: readonly TagGraphEdge[];
+}
+
 // ============================================================================
 // Search Types
 // ============================================================================
@@ -232,9 +419,84 @@ export interface SearchStats {
 
 export type FilterType = "writing" | "work";
 
+/** "any": an item matches one of the tags (OR); "all": every tag (AND) */
+export type FilterMatchMode = "any" | "all";
+
+export type FacetId = "contentType" | "category" | "date" | "readingTime";
+
+/**
+ * Selectable facet value. Bucketed values (reading time) match items whose
+ * numeric attribute is in [min, max).
+ */
+export interface FacetValue {
+  readonly value: string;
+  readonly label: string;
+  /** Items with this value before any filter is applied */
+  readonly count: number;
+  readonly min?: number;
+  readonly max?: number;
+}
+
+interface FacetBase {
+  readonly id: FacetId;
+  readonly label: string;
+  /** Item data attribute suffix (`data-<type>-<attribute>`) */
+  readonly attribute: string;
+  readonly values: readonly FacetValue[];
+}
+
+/**
+ * Facet whose values are toggled on and off (`?category=design,craft`)
+ */
+export interface ToggleFacet extends FacetBase {
+  readonly control: "toggle";
+  /** URL search param holding the selected values */
+  readonly param: string;
+}
+
+/**
+ * Facet selecting a from/to span of its ordered numeric values
+ * (`?from=2022&to=2024`, both ends inclusive)
+ */
+export interface RangeFacet extends FacetBase {
+  readonly control: "range";
+  readonly fromParam: string;
+  readonly toParam: string;
+}
+
+/**
+ * Filter dimension rendered by FilterBar next to the tags
+ */
+export type Facet = ToggleFacet | RangeFacet;
+
+export type FacetControl = Facet["control"];
+
+/** Selected bounds of a range facet; null leaves that end open */
+export interface FacetRange {
+  readonly from: string | null;
+  readonly to: string | null;
+}
+
+/** Listing order; "newest" is the default */
+export type SortOrder =
+  | "newest"
+  | "oldest"
+  | "title"
+  | "reading-time"
+  | "featured";
+
+export interface SortOption {
+  readonly id: SortOrder;
+  readonly label: string;
+}
+
 export interface FilterState {
   readonly type: FilterType;
   readonly activeTags: ReadonlySet<TagId>;
+  readonly matchMode: FilterMatchMode;
+  readonly facets: ReadonlyMap<FacetId, ReadonlySet<string>>;
+  readonly ranges: ReadonlyMap<FacetId, FacetRange>;
+  readonly sort: SortOrder;
   readonly visibleCount: number;
   readonly totalCount: number;
 }
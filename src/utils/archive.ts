@@ -0,0 +1,152 @@
+/**
+ * Archive Utilities
+ *
+ * Groups writing posts by year and month, and work projects by year,
+ * for the chronological archive routes. Periods are ordered newest
+ * first and only include periods that have content.
+ */
+
+import type { WorkProject, WritingPost } from "@/types/index";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ArchiveMonth {
+  readonly year: string;
+  readonly month: string;
+  readonly label: string;
+  readonly posts: readonly WritingPost[];
+}
+
+export interface ArchiveYear {
+  readonly year: string;
+  readonly posts: readonly WritingPost[];
+  readonly months: readonly ArchiveMonth[];
+}
+
+export interface ProjectYear {
+  readonly year: string;
+  readonly projects: readonly WorkProject[];
+}
+
+/**
+ * Neighbouring periods: `newer` is closer to today, `older` further back
+ */
+export interface ArchiveNeighbours<T> {
+  readonly newer?: T | undefined;
+  readonly older?: T | undefined;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Zero-padded UTC month of a date ("01" to "12")
+ */
+function getMonthKey(date: Date): string {
+  return String(date.getUTCMonth() + 1).padStart(2, "0");
+}
+
+/**
+ * Format a year and month for display (e.g., "December 2024")
+ */
+export function formatArchiveMonth(
+  year: string,
+  month: string,
+  locale = "en-US"
+): string {
+  return new Date(Date.UTC(Number(year), Number(month) - 1, 1)).toLocaleString(
+    locale,
+    { month: "long", year: "numeric", timeZone: "UTC" }
+  );
+}
+
+/**
+ * Group items by a string key, preserving first-seen order
+ */
+function groupBy<T>(
+  items: readonly T[],
+  getKey: (item: T) => string
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  return groups;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Group writing posts by year, then by month (newest first)
+ */
+export function getWritingArchive(
+  posts: readonly WritingPost[]
+): readonly ArchiveYear[] {
+  const sorted = [...posts].sort(
+    (a, b) => b.dateObj.getTime() - a.dateObj.getTime()
+  );
+  const byYear = groupBy(sorted, (post) =>
+    String(post.dateObj.getUTCFullYear())
+  );
+
+  return [...byYear].map(([year, yearPosts]) => ({
+    year,
+    posts: yearPosts,
+    months: [...groupBy(yearPosts, (post) => getMonthKey(post.dateObj))].map(
+      ([month, monthPosts]) => ({
+        year,
+        month,
+        label: formatArchiveMonth(year, month),
+        posts: monthPosts,
+      })
+    ),
+  }));
+}
+
+/**
+ * Flatten a writing archive into its months (newest first)
+ */
+export function getArchiveMonths(
+  archive: readonly ArchiveYear[]
+): readonly ArchiveMonth[] {
+  return archive.flatMap((year) => year.months);
+}
+
+/**
+ * Group work projects by their `year` field (newest first)
+ */
+export function getProjectYears(
+  projects: readonly WorkProject[]
+): readonly ProjectYear[] {
+  const byYear = groupBy(projects, (project) => project.year);
+
+  return [...byYear]
+    .sort(([a], [b]) => Number(b) - Number(a))
+    .map(([year, yearProjects]) => ({ year, projects: yearProjects }));
+}
+
+/**
+ * Get the neighbouring periods of a period in a newest-first list
+ */
+export function getArchiveNeighbours<T>(
+  periods: readonly T[],
+  index: number
+): ArchiveNeighbours<T> {
+  return {
+    newer: periods[index - 1],
+    older: periods[index + 1],
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Author Utilities
+ *
+ * Resolves the `author` reference of writing posts against the authors
+ * collection. Posts without an author belong to the site owner, built
+ * from `SITE_CONFIG.author` (an authors entry with the
+ * `CONTENT_CONFIG.defaults.authorId` id overrides it); an unknown author
+ * id fails the build instead of crediting the post to the owner.
+ */
+
+import type { CollectionEntry } from "astro:content";
+import type {
+  Author,
+  AuthorSocialLink,
+  Slug,
+  URL,
+  WritingPost,
+} from "@/types/index";
+import { safeValidateAuthor, formatZodError } from "@/schemas/content";
+import {
+  CONTENT_CONFIG,
+  SITE_CONFIG,
+  getSocialLinks,
+} from "@/config/site.config";
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+class AuthorReferenceError extends Error {
+  constructor(
+    message: string,
+    public readonly references: readonly string[]
+  ) {
+    super(message);
+    this.name = "AuthorReferenceError";
+  }
+}
+
+// ============================================================================
+// Author Processing
+// ============================================================================
+
+/**
+ * Process author entries with validation
+ */
+export function processAuthors(
+  entries: readonly CollectionEntry<"authors">[]
+): readonly Author[] {
+  const processed: Author[] = [];
+
+  for (const entry of entries) {
+    const result = safeValidateAuthor({ id: entry.id, ...entry.data });
+
+    if (result.success) {
+      processed.push(result.data);
+    } else {
+      console.error(
+        `[Authors] Validation error for "${entry.id}":`,
+        formatZodError(result.error)
+      );
+    }
+  }
+
+  return processed.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// Author Queries
+// ============================================================================
+
+/**
+ * Get the default author, falling back to the site owner from config
+ * when the authors collection has no matching entry
+ */
+export function getDefaultAuthor(authors: readonly Author[]): Author {
+  const authorId = CONTENT_CONFIG.defaults.authorId as Slug;
+  const author = authors.find((item) => item.id === authorId);
+  if (author) {
+    return author;
+  }
+
+  const social: AuthorSocialLink[] = getSocialLinks()
+    .filter((link) => link.url)
+    .map((link) => ({ label: link.label, url: link.url as URL }));
+
+  return {
+    id: authorId,
+    name: CONTENT_CONFIG.defaults.author,
+    bio: SITE_CONFIG.author.bio,
+    avatar: SITE_CONFIG.author.avatar,
+    url: SITE_CONFIG.url as URL,
+    social,
+  };
+}
+
+/**
+ * Get all authors, including the default author when it is not
+ * defined in the authors collection
+ */
+export function getAllAuthors(authors: readonly Author[]): readonly Author[] {
+  const defaultAuthor = getDefaultAuthor(authors);
+  return authors.some((author) => author.id === defaultAuthor.id)
+    ? authors
+    : [defaultAuthor, ...authors];
+}
+
+/**
+ * Resolve a post's author, falling back to the default author when the
+ * post has none. Throws (failing the build) on an unknown author id.
+ */
+export function resolveAuthor(
+  post: { readonly id: string; readonly author?: string | undefined },
+  authors: readonly Author[]
+): Author {
+  if (!post.author) {
+    return getDefaultAuthor(authors);
+  }
+
+  const author = getAllAuthors(authors).find((item) => item.id === post.author);
+  if (!author) {
+    const reference = `writing/${post.id}: Unknown author "${post.author}"`;
+    throw new AuthorReferenceError(`[Authors] ${reference}`, [reference]);
+  }
+
+  return author;
+}
+
+/**
+ * Get posts written by an author (newest first, as given)
+ */
+export function getAuthorPosts(
+  authorId: Slug,
+  posts: readonly WritingPost[],
+  authors: readonly Author[]
+): readonly WritingPost[] {
+  return posts.filter((post) => resolveAuthor(post, authors).id === authorId);
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { Author, AuthorSocialLink };
@@ -0,0 +1,244 @@
+/**
+ * Color Contrast Utilities
+ *
+ * Build-time WCAG 2 contrast checks for tag colors. A tag badge needs
+ * readable text (AA, 4.5:1) in black or white; its edge is the badge's
+ * black border, so the fill never has to contrast with the page. Colors
+ * where neither text color passes are darkened in OKLCH, keeping hue and
+ * as much chroma as fits in sRGB; brand colors are kept otherwise.
+ *
+ * Used by `Tag.astro` and `getTagStatistics`.
+ */
+
+import type { ColorPairing } from "@/types/index";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface Rgb {
+  readonly r: number;
+  readonly g: number;
+  readonly b: number;
+}
+
+interface Oklch {
+  readonly l: number;
+  readonly c: number;
+  readonly h: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** WCAG AA contrast for normal-size text */
+export const WCAG_AA_TEXT = 4.5;
+
+const BLACK = "#000000";
+
+const WHITE = "#FFFFFF";
+
+const LIGHTNESS_STEP = 0.005;
+
+/** Darker than this and the shade no longer reads as the tag's color */
+const MAX_LIGHTNESS_SHIFT = 0.4;
+
+const pairingCache = new Map<string, ColorPairing>();
+
+// ============================================================================
+// Color Conversion
+// ============================================================================
+
+/**
+ * Parse a `#RRGGBB` color into sRGB channels (0-1)
+ */
+export function parseHexColor(hex: string): Rgb | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return null;
+
+  const [r, g, b] = match
+    .slice(1)
+    .map((channel) => parseInt(channel, 16) / 255);
+  return { r: r ?? 0, g: g ?? 0, b: b ?? 0 };
+}
+
+/**
+ * Format sRGB channels (0-1) as an uppercase `#RRGGBB` color
+ */
+function toHexColor({ r, g, b }: Rgb): string {
+  return `#${[r, g, b]
+    .map((channel) =>
+      Math.round(Math.min(1, Math.max(0, channel)) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")
+    .toUpperCase()}`;
+}
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045
+    ? channel / 12.92
+    : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(channel: number): number {
+  return channel <= 0.0031308
+    ? channel * 12.92
+    : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+}
+
+/**
+ * sRGB → OKLCH (https://bottosson.github.io/posts/oklab/)
+ */
+function toOklch({ r, g, b }: Rgb): Oklch {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+
+  const l = Math.cbrt(
+    0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb
+  );
+  const m = Math.cbrt(
+    0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb
+  );
+  const s = Math.cbrt(
+    0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb
+  );
+
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  return { l: L, c: Math.hypot(A, B), h: Math.atan2(B, A) };
+}
+
+/**
+ * OKLCH → sRGB (unclamped; channels outside 0-1 are out of gamut)
+ */
+function fromOklch({ l: L, c, h }: Oklch): Rgb {
+  const A = c * Math.cos(h);
+  const B = c * Math.sin(h);
+
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3);
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  };
+}
+
+function isInGamut({ r, g, b }: Rgb): boolean {
+  return [r, g, b].every((channel) => channel >= -1e-4 && channel <= 1 + 1e-4);
+}
+
+/**
+ * OKLCH → sRGB, reducing chroma until the color fits the sRGB gamut
+ */
+function fromOklchInGamut(color: Oklch): Rgb {
+  let low = 0;
+  let high = color.c;
+
+  if (isInGamut(fromOklch(color))) return fromOklch(color);
+
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (isInGamut(fromOklch({ ...color, c: mid }))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return fromOklch({ ...color, c: low });
+}
+
+// ============================================================================
+// Contrast
+// ============================================================================
+
+/**
+ * WCAG relative luminance of an sRGB color
+ */
+function getLuminance({ r, g, b }: Rgb): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+/**
+ * WCAG contrast ratio between two `#RRGGBB` colors (1-21, 0 if invalid)
+ */
+export function getContrastRatio(a: string, b: string): number {
+  const rgbA = parseHexColor(a);
+  const rgbB = parseHexColor(b);
+  if (!rgbA || !rgbB) return 0;
+
+  const [light, dark] = [getLuminance(rgbA), getLuminance(rgbB)].sort(
+    (x, y) => y - x
+  );
+  return ((light ?? 0) + 0.05) / ((dark ?? 0) + 0.05);
+}
+
+/**
+ * Black or white text for a background, whichever contrasts more
+ */
+function pairText(background: string): ColorPairing {
+  const onBlack = getContrastRatio(background, BLACK);
+  const onWhite = getContrastRatio(background, WHITE);
+  const text = onBlack >= onWhite ? BLACK : WHITE;
+  const contrast = Math.max(onBlack, onWhite);
+
+  return {
+    background,
+    text,
+    contrast,
+    adjusted: false,
+    compliant: contrast >= WCAG_AA_TEXT,
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Pick an accessible badge background and text color for a tag color.
+ * Uses the color as-is when possible, otherwise the lightest darker
+ * OKLCH shade that passes. `compliant` is false when the color is
+ * invalid or would need to change beyond recognition.
+ */
+export function getAccessibleColorPairing(color: string): ColorPairing {
+  const cached = pairingCache.get(color);
+  if (cached) return cached;
+
+  const rgb = parseHexColor(color);
+  let pairing: ColorPairing = {
+    background: WHITE,
+    text: BLACK,
+    contrast: 21,
+    adjusted: false,
+    compliant: false,
+  };
+
+  if (rgb) {
+    pairing = pairText(toHexColor(rgb));
+
+    const original = toOklch(rgb);
+    const minLightness = Math.max(0, original.l - MAX_LIGHTNESS_SHIFT);
+
+    for (
+      let l = original.l - LIGHTNESS_STEP;
+      !pairing.compliant && l >= minLightness;
+      l -= LIGHTNESS_STEP
+    ) {
+      const shade = pairText(toHexColor(fromOklchInGamut({ ...original, l })));
+      if (shade.compliant) {
+        pairing = { ...shade, adjusted: true };
+      }
+    }
+  }
+
+  pairingCache.set(color, pairing);
+  return pairing;
+}
@@ -241,6 +241,7 @@ export const STORAGE_KEYS = {
   THEME: "theme",
   FILTER_STATE: "filter-state",
   SEARCH_HISTORY: "search-history",
+  RECENT_TAGS: "recent-tags",
   FORM_DRAFT: "form-draft",
   CONSENT: "consent",
   PREFERENCES: "preferences",
@@ -0,0 +1,547 @@
+/**
+ * Content Lint Utilities
+ *
+ * Checks writing and work entries for problems the build tolerates
+ * silently: schema violations (via `validateContentBatch`), unknown,
+ * near-duplicate, renamed or deprecated tags, broken tag parents and
+ * colors, text over `CONTENT_CONFIG.limits`, images without alt text,
+ * extra H1s and skipped heading levels.
+ *
+ * Used by `npm run content:lint` (`scripts/content-lint.ts`).
+ */
+
+import type { z } from "astro/zod";
+import { validateContentBatch } from "@/schemas/content";
+import {
+  getAllTags,
+  getTagById,
+  getTagStatistics,
+  resolveTagId,
+  validateTagIds,
+  type TagId,
+} from "@/config/tags.config";
+import { CONTENT_CONFIG } from "@/config/site.config";
+import { calculateReadingTime } from "@/utils/reading-time";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LintCollection = "writing" | "work";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "schema"
+  | "unknown-tag"
+  | "near-duplicate-tag"
+  | "outdated-tag"
+  | "tag-hierarchy"
+  | "tag-color"
+  | "limit"
+  | "image-alt"
+  | "duplicate-h1"
+  | "heading-level";
+
+export interface LintEntry {
+  readonly collection: LintCollection;
+  readonly id: string;
+  readonly file: string;
+  readonly data: Readonly<Record<string, unknown>>;
+  readonly frontmatter: string;
+  readonly body: string;
+  /** Line number of the first body line in the file */
+  readonly bodyLine: number;
+}
+
+export interface LintIssue {
+  readonly file: string;
+  readonly line: number;
+  readonly rule: LintRule;
+  readonly severity: LintSeverity;
+  readonly message: string;
+}
+
+export interface LintReport {
+  readonly files: number;
+  readonly errors: number;
+  readonly warnings: number;
+  readonly issues: readonly LintIssue[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum edit distance for two tags to count as near-duplicates */
+const NEAR_DUPLICATE_DISTANCE = 2;
+
+/** Shorter tags need an exact normalized match (e.g., "ai" vs "ui") */
+const NEAR_DUPLICATE_MIN_LENGTH = 5;
+
+const TAGS_CONFIG_FILE = "src/config/tags.config.ts";
+
+/** Computed fields; their issues repeat those of the source field */
+const COMPUTED_FIELDS = new Set([
+  "dateObj",
+  "readTime",
+  "readingMinutes",
+  "published",
+  "link",
+]);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Line of a frontmatter key (falls back to the opening delimiter)
+ */
+function getFrontmatterLine(entry: LintEntry, key: string): number {
+  const index = entry.frontmatter
+    .split("\n")
+    .findIndex((line) => line.startsWith(`${key}:`));
+  return index === -1 ? 1 : index + 2;
+}
+
+/**
+ * Body lines with fenced code blanked out, numbered from the file start
+ */
+function getBodyLines(
+  entry: LintEntry
+): readonly { line: number; text: string }[] {
+  let inFence = false;
+
+  return entry.body.split("\n").map((text, index) => {
+    const isFence = /^\s*(```|~~~)/.test(text);
+    const blank = inFence || isFence;
+    if (isFence) inFence = !inFence;
+    return { line: entry.bodyLine + index, text: blank ? "" : text };
+  });
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * Normalize a tag for comparison ("Front-End" → "frontend")
+ */
+function normalizeTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .replace(/s$/, "");
+}
+
+/**
+ * Check whether two distinct tags are likely the same concept
+ */
+export function areNearDuplicateTags(a: string, b: string): boolean {
+  if (a === b) return false;
+
+  const left = normalizeTag(a);
+  const right = normalizeTag(b);
+  if (left === right) return true;
+
+  return (
+    Math.min(left.length, right.length) >= NEAR_DUPLICATE_MIN_LENGTH &&
+    editDistance(left, right) <= NEAR_DUPLICATE_DISTANCE
+  );
+}
+
+/**
+ * Find pairs of near-duplicate tags
+ */
+export function findNearDuplicateTags(
+  tags: readonly string[]
+): [string, string][] {
+  return tags.flatMap((tag, i) =>
+    tags
+      .slice(i + 1)
+      .filter((other) => areNearDuplicateTags(tag, other))
+      .map((other): [string, string] => [tag, other])
+  );
+}
+
+/**
+ * Normalize a frontmatter date to a full ISO string (left as-is if invalid)
+ */
+function toISODate(value: unknown): unknown {
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Build the raw entry `validateContentBatch` expects, adding the fields
+ * the content pipeline computes (reading time, publish state, link)
+ */
+function toRawContentEntry(entry: LintEntry): unknown {
+  const publishAt =
+    entry.data["publishAt"] === undefined
+      ? undefined
+      : toISODate(entry.data["publishAt"]);
+  const published =
+    !entry.data["draft"] &&
+    !(typeof publishAt === "string" && new Date(publishAt) > new Date());
+  const data = { ...entry.data, publishAt, published };
+
+  if (entry.collection === "work") {
+    return {
+      id: entry.id,
+      collection: entry.collection,
+      data: { ...data, link: `/work/${entry.id}` },
+    };
+  }
+
+  const { minutes } = calculateReadingTime(entry.body);
+  const date = toISODate(entry.data["date"]);
+
+  return {
+    id: entry.id,
+    collection: entry.collection,
+    data: {
+      ...data,
+      date,
+      dateObj: new Date(String(date)),
+      description: entry.data["description"] ?? entry.data["excerpt"],
+      readTime: minutes,
+      readingMinutes: minutes,
+    },
+  };
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Schema validation, shared with the content pipeline
+ */
+function lintSchema(entry: LintEntry): LintIssue[] {
+  const { invalid } = validateContentBatch([toRawContentEntry(entry)]);
+
+  return invalid.flatMap(({ error }: { error: z.ZodError }) =>
+    error.issues
+      .filter((issue) => !COMPUTED_FIELDS.has(String(issue.path[0])))
+      .map((issue) => {
+        const key = String(issue.path[0] ?? "");
+        const path = issue.path.join(".");
+        return {
+          file: entry.file,
+          line: key ? getFrontmatterLine(entry, key) : 1,
+          rule: "schema" as const,
+          severity: "error" as const,
+          message: path ? `${path}: ${issue.message}` : issue.message,
+        };
+      })
+  );
+}
+
+/**
+ * Unknown tags (dropped by the pipeline) and near-duplicates within an entry
+ */
+function lintTags(entry: LintEntry): LintIssue[] {
+  const tags = entry.data["tags"];
+  if (!Array.isArray(tags)) return [];
+
+  const line = getFrontmatterLine(entry, "tags");
+  const { invalid } = validateTagIds(tags.map(String));
+  const registry = getAllTags().map((tag) => tag.id);
+
+  const unknown = invalid.map((tag) => {
+    const suggestion =
+      registry.find((id) => normalizeTag(id) === normalizeTag(tag)) ??
+      registry.find((id) => areNearDuplicateTags(id, tag));
+    return {
+      file: entry.file,
+      line,
+      rule: "unknown-tag" as const,
+      severity: "error" as const,
+      message: suggestion
+        ? `Unknown tag "${tag}" (did you mean "${suggestion}"?)`
+        : `Unknown tag "${tag}"`,
+    };
+  });
+
+  const duplicates = findNearDuplicateTags(tags.map(String)).map(([a, b]) => ({
+    file: entry.file,
+    line,
+    rule: "near-duplicate-tag" as const,
+    severity: "warning" as const,
+    message: `Tags "${a}" and "${b}" look like duplicates`,
+  }));
+
+  const outdated = tags.map(String).flatMap((tag) => {
+    const resolved = resolveTagId(tag);
+    if (!resolved) return [];
+
+    const message =
+      resolved !== tag
+        ? `Tag "${tag}" is now "${resolved}"`
+        : getTagById(resolved as TagId)?.deprecated
+          ? `Tag "${tag}" is deprecated`
+          : null;
+    return message
+      ? [
+          {
+            file: entry.file,
+            line,
+            rule: "outdated-tag" as const,
+            severity: "warning" as const,
+            message,
+          },
+        ]
+      : [];
+  });
+
+  return [...unknown, ...duplicates, ...outdated];
+}
+
+/**
+ * Text lengths and tag count against `CONTENT_CONFIG.limits`
+ */
+function lintLimits(entry: LintEntry): LintIssue[] {
+  const { limits } = CONTENT_CONFIG;
+  const checks: [string, number][] = [
+    ["title", limits.titleMax],
+    ["excerpt", limits.excerptMax],
+    ["description", limits.descriptionMax],
+  ];
+  const issues: LintIssue[] = [];
+
+  for (const [key, max] of checks) {
+    const value = entry.data[key];
+    if (typeof value === "string" && value.trim().length > max) {
+      issues.push({
+        file: entry.file,
+        line: getFrontmatterLine(entry, key),
+        rule: "limit",
+        severity: "error",
+        message: `${key} is ${value.trim().length} characters (limit ${max})`,
+      });
+    }
+  }
+
+  const tags = entry.data["tags"];
+  if (Array.isArray(tags) && tags.length > limits.tagsMax) {
+    issues.push({
+      file: entry.file,
+      line: getFrontmatterLine(entry, "tags"),
+      rule: "limit",
+      severity: "error",
+      message: `${tags.length} tags (limit ${limits.tagsMax})`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Markdown images and `<img>`/`<OptimizedImage>` without alt text
+ */
+function lintImageAlt(entry: LintEntry): LintIssue[] {
+  return getBodyLines(entry).flatMap(({ line, text }) => {
+    const markdown = [...text.matchAll(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g)]
+      .filter((match) => !match[1]?.trim())
+      .map((match) => match[2]);
+    const elements = [...text.matchAll(/<(img|OptimizedImage)\b([^>]*)\/?>/g)]
+      .filter(
+        (match) =>
+          !/\balt=(?:"[^"\s][^"]*"|'[^'\s][^']*'|\{)/.test(match[2] ?? "")
+      )
+      .map((match) => `<${match[1]}>`);
+
+    return [...markdown, ...elements].map((image) => ({
+      file: entry.file,
+      line,
+      rule: "image-alt" as const,
+      severity: "error" as const,
+      message: `Image ${image} has no alt text`,
+    }));
+  });
+}
+
+/**
+ * Body H1s (the page already renders the title as H1) and skipped levels
+ */
+function lintHeadings(entry: LintEntry): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const title = String(entry.data["title"] ?? "").trim();
+  let previousDepth = 1; // The page title
+
+  for (const { line, text } of getBodyLines(entry)) {
+    const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(text);
+    if (!match) continue;
+
+    const depth = match[1]!.length;
+    const heading = match[2]!;
+
+    if (depth === 1) {
+      issues.push({
+        file: entry.file,
+        line,
+        rule: "duplicate-h1",
+        severity: "warning",
+        message:
+          heading === title
+            ? `H1 "${heading}" repeats the title (rendered as the page H1)`
+            : `H1 "${heading}" duplicates the page H1; use ## instead`,
+      });
+    } else if (depth > previousDepth + 1) {
+      issues.push({
+        file: entry.file,
+        line,
+        rule: "heading-level",
+        severity: "warning",
+        message: `Heading "${heading}" skips from h${previousDepth} to h${depth}`,
+      });
+    }
+
+    previousDepth = depth;
+  }
+
+  return issues;
+}
+
+/**
+ * Follow a tag's parents, returning true if the chain leads back to it
+ */
+function hasParentCycle(id: TagId): boolean {
+  const seen = new Set<TagId>();
+  let parent = getTagById(id)?.parent;
+
+  while (parent && !seen.has(parent)) {
+    if (parent === id) return true;
+    seen.add(parent);
+    parent = getTagById(parent)?.parent;
+  }
+
+  return false;
+}
+
+/**
+ * Near-duplicate tags, broken parent links and inaccessible colors in the
+ * registry itself
+ */
+function lintTagRegistry(): LintIssue[] {
+  const tags = getAllTags();
+
+  const duplicates = findNearDuplicateTags(tags.map((tag) => tag.id)).map(
+    ([a, b]): LintIssue => ({
+      file: TAGS_CONFIG_FILE,
+      line: 1,
+      rule: "near-duplicate-tag",
+      severity: "warning",
+      message: `Registry tags "${a}" and "${b}" look like duplicates`,
+    })
+  );
+
+  const hierarchy = tags.flatMap((tag): LintIssue[] => {
+    if (!tag.parent) return [];
+
+    const issue = (message: string): LintIssue[] => [
+      {
+        file: TAGS_CONFIG_FILE,
+        line: 1,
+        rule: "tag-hierarchy",
+        severity: "error",
+        message,
+      },
+    ];
+
+    if (!getTagById(tag.parent)) {
+      return issue(`Tag "${tag.id}" has unknown parent "${tag.parent}"`);
+    }
+    if (hasParentCycle(tag.id)) {
+      return issue(`Tag "${tag.id}" is its own ancestor`);
+    }
+    return [];
+  });
+
+  const colors = getTagStatistics().inaccessibleColors.map(
+    (tag): LintIssue => ({
+      file: TAGS_CONFIG_FILE,
+      line: 1,
+      rule: "tag-color",
+      severity: "warning",
+      message: `Tag "${tag.id}" color ${tag.color} cannot meet WCAG AA as a badge`,
+    })
+  );
+
+  return [...duplicates, ...hierarchy, ...colors];
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Lint a single entry
+ */
+export function lintEntry(entry: LintEntry): LintIssue[] {
+  return [
+    ...lintSchema(entry),
+    ...lintTags(entry),
+    ...lintLimits(entry),
+    ...lintImageAlt(entry),
+    ...lintHeadings(entry),
+  ];
+}
+
+/**
+ * Lint all entries plus the tag registry
+ */
+export function lintContent(entries: readonly LintEntry[]): LintReport {
+  const issues = [...lintTagRegistry(), ...entries.flatMap(lintEntry)].sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line
+  );
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  return {
+    files: entries.length,
+    errors,
+    warnings: issues.length - errors,
+    issues,
+  };
+}
+
+/**
+ * Format a report for the terminal, grouped by file
+ */
+export function formatLintReport(report: LintReport): string {
+  const byFile = new Map<string, LintIssue[]>();
+  for (const issue of report.issues) {
+    byFile.set(issue.file, [...(byFile.get(issue.file) ?? []), issue]);
+  }
+
+  const sections = [...byFile].map(([file, issues]) =>
+    [
+      file,
+      ...issues.map(
+        (issue) =>
+          `  ${String(issue.line).padStart(4)}  ${issue.severity.padEnd(7)}  ${issue.message}  (${issue.rule})`
+      ),
+    ].join("\n")
+  );
+
+  const summary = `${report.files} entries, ${report.errors} errors, ${report.warnings} warnings`;
+  return [...sections, summary].join("\n\n");
+}
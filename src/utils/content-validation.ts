@@ -0,0 +1,38 @@
+/**
+ * Content Validation
+ *
+ * Build-wide integrity checks across collections: post/project
+ * cross-references and series membership. Runs from `src/middleware.ts`
+ * before any page renders, so the checks don't depend on one route's
+ * `getStaticPaths`. Every entry is checked, drafts included; each check
+ * throws, failing the build.
+ */
+
+import type { CollectionEntry } from "astro:content";
+import { validateCrossReferences } from "@/utils/cross-references";
+import { processSeries, validateSeriesReferences } from "@/utils/series";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ContentCollections {
+  readonly writing: readonly CollectionEntry<"writing">[];
+  readonly work: readonly CollectionEntry<"work">[];
+  readonly series: readonly CollectionEntry<"series">[];
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Run every cross-collection check
+ */
+export function validateContent(collections: ContentCollections): void {
+  validateCrossReferences(collections.writing, collections.work);
+  validateSeriesReferences(
+    collections.writing,
+    processSeries(collections.series)
+  );
+}
@@ -6,21 +6,31 @@
  */
 
 import type { CollectionEntry } from "astro:content";
-import { z } from "zod";
+import { z } from "astro/zod";
 import type {
+  FilterMatchMode,
   WritingPost,
   WorkProject,
   Tag,
   TagId,
   Slug,
   ISODate,
+  PublishStatus,
 } from "@/types/index";
+import { PUBLISH_STATUSES } from "@/types/index";
 import {
   safeValidateWritingPost,
   safeValidateWorkProject,
   formatZodError,
 } from "@/schemas/content";
-import { getTagsByIds, TAGS } from "@/config/tags.config";
+import {
+  expandTagIds,
+  getTagAncestorIds,
+  getTagsByIds,
+  resolveTagId,
+} from "@/config/tags.config";
+import { CONTENT_CONFIG } from "@/config/site.config";
+import { calculateReadingTime } from "@/utils/reading-time";
 
 // ============================================================================
 // Export Types for External Use
@@ -85,12 +95,73 @@ function formatDateISO(date: Date): ISODate {
   return date.toISOString() as ISODate;
 }
 
+/**
+ * Parse optional date into ISO format
+ */
+function parseOptionalDateISO(dateStr: unknown): ISODate | undefined {
+  return dateStr ? formatDateISO(parseDateSafe(dateStr)) : undefined;
+}
+
+// ============================================================================
+// Publishing Lifecycle
+// ============================================================================
+
+interface PublishableData {
+  readonly draft?: boolean;
+  readonly publishAt?: string | undefined;
+}
+
+/**
+ * Resolve the publish status of an entry.
+ * Scheduled entries go live on the first build after `publishAt`.
+ */
+export function getPublishStatus(
+  data: PublishableData,
+  now: Date = new Date()
+): PublishStatus {
+  if (data.draft) {
+    return PUBLISH_STATUSES.DRAFT;
+  }
+
+  if (data.publishAt && parseDateSafe(data.publishAt) > now) {
+    return PUBLISH_STATUSES.SCHEDULED;
+  }
+
+  return PUBLISH_STATUSES.PUBLISHED;
+}
+
+/**
+ * Check whether drafts and scheduled entries are included in this build
+ */
+export function isPreviewDraftsEnabled(): boolean {
+  return CONTENT_CONFIG.previewDrafts;
+}
+
+/**
+ * Collection filter for public artifacts (RSS, search index, sitemap)
+ */
+export function isPublishedEntry(entry: {
+  readonly data: PublishableData;
+}): boolean {
+  return getPublishStatus(entry.data) === PUBLISH_STATUSES.PUBLISHED;
+}
+
+/**
+ * Collection filter for generated pages and listings.
+ * Includes drafts and scheduled entries in preview builds.
+ */
+export function isVisibleEntry(entry: {
+  readonly data: PublishableData;
+}): boolean {
+  return isPublishedEntry(entry) || isPreviewDraftsEnabled();
+}
+
 // ============================================================================
 // Tag Processing
 // ============================================================================
 
 /**
- * Validate and filter tag IDs
+ * Validate and filter tag IDs (aliases resolve to their current id)
  */
 function validateTagIds(tags: unknown): readonly TagId[] {
   if (!Array.isArray(tags)) {
@@ -98,18 +169,19 @@ function validateTagIds(tags: unknown): readonly TagId[] {
     return [];
   }
 
-  const validTags = tags.filter((tag): tag is TagId => {
+  const validTags = tags.flatMap((tag): TagId[] => {
     if (typeof tag !== "string") {
       console.warn("[Content] Invalid tag type:", tag);
-      return false;
+      return [];
     }
 
-    if (!(tag in TAGS)) {
+    const resolved = resolveTagId(tag);
+    if (!resolved) {
       console.warn("[Content] Unknown tag ID:", tag);
-      return false;
+      return [];
     }
 
-    return true;
+    return [resolved];
   });
 
   // Remove duplicates and return as readonly
@@ -152,6 +224,9 @@ function processWritingPost(
 
     const { id, data } = entry;
 
+    // Reading time is computed from the MDX body
+    const { minutes } = calculateReadingTime(entry.body ?? "");
+
     // Parse date to Date object for sorting
     const dateObj = parseDateSafe(data.date);
 
@@ -169,13 +244,21 @@ function processWritingPost(
       description: String(data.description ?? data.excerpt ?? "").trim(),
       excerpt: String(data.excerpt ?? "").trim(),
       date: isoDate as ISODate, // Use full ISO format for validation
-      readTime: String(data.readTime ?? "").trim(),
+      readTime: minutes,
+      readingMinutes: minutes,
       slug: id as Slug,
       tags: validateTagIds(data.tags),
       dateObj, // Keep Date object for sorting
-      author: data.author ? String(data.author).trim() : undefined,
+      author: data.author?.id as Slug | undefined,
       image: data.image ? String(data.image) : undefined,
-      published: Boolean(data.published ?? true),
+      draft: Boolean(data.draft ?? false),
+      publishAt: parseOptionalDateISO(data.publishAt),
+      published: getPublishStatus(data) === PUBLISH_STATUSES.PUBLISHED,
+      series: data.series,
+      seriesOrder: data.seriesOrder,
+      related: data.related,
+      toc: data.toc,
+      projects: data.projects,
     };
 
     // Validate with Zod
@@ -238,6 +321,14 @@ function processWorkProject(
           ) as readonly string[])
         : undefined,
       featured: Boolean(data.featured ?? false),
+      pinned: Boolean(data.pinned ?? false),
+      order: data.order,
+      draft: Boolean(data.draft ?? false),
+      publishAt: parseOptionalDateISO(data.publishAt),
+      published: getPublishStatus(data) === PUBLISH_STATUSES.PUBLISHED,
+      related: data.related,
+      toc: data.toc,
+      posts: data.posts,
     };
 
     // Validate with Zod
@@ -288,9 +379,15 @@ export function processWritingPosts(
     .map((post, index) => processWritingPost(post, index))
     .filter((post): post is WritingPost => post !== null);
 
-  // Sort by date (newest first)
-  const sorted = [...processed].sort(
-    (a, b) => b.dateObj.getTime() - a.dateObj.getTime()
+  const visible = processed.filter(
+    (post) => post.published || isPreviewDraftsEnabled()
+  );
+
+  // Sort by date (newest first), then title
+  const sorted = [...visible].sort(
+    (a, b) =>
+      b.dateObj.getTime() - a.dateObj.getTime() ||
+      a.title.localeCompare(b.title)
   );
 
   const failedCount = posts.length - processed.length;
@@ -304,6 +401,29 @@ export function processWritingPosts(
   return sorted;
 }
 
+/**
+ * Canonical project order: pinned first, then newest year, then `order`
+ * (projects without one last), then title and id so builds are reproducible
+ */
+export function compareWorkProjects(a: WorkProject, b: WorkProject): number {
+  return (
+    Number(b.pinned) - Number(a.pinned) ||
+    parseInt(b.year) - parseInt(a.year) ||
+    (a.order ?? Infinity) - (b.order ?? Infinity) ||
+    a.title.localeCompare(b.title) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Sort work projects into the canonical order (see `compareWorkProjects`)
+ */
+export function sortWorkProjects(
+  projects: readonly WorkProject[]
+): readonly WorkProject[] {
+  return [...projects].sort(compareWorkProjects);
+}
+
 /**
  * Process work projects with comprehensive validation and error handling
  */
@@ -319,11 +439,12 @@ export function processWorkProjects(
     .map((project, index) => processWorkProject(project, index))
     .filter((project): project is WorkProject => project !== null);
 
-  // Sort by year (newest first)
-  const sorted = [...processed].sort(
-    (a, b) => parseInt(b.year) - parseInt(a.year)
+  const visible = processed.filter(
+    (project) => project.published || isPreviewDraftsEnabled()
   );
 
+  const sorted = sortWorkProjects(visible);
+
   const failedCount = projects.length - processed.length;
   if (failedCount > 0) {
     console.warn(
@@ -373,6 +494,52 @@ export function getUniqueTagsFromProjects(
   }
 }
 
+// ============================================================================
+// Tag Queries
+// ============================================================================
+
+interface TaggedContent {
+  readonly posts: readonly WritingPost[];
+  readonly projects: readonly WorkProject[];
+}
+
+/**
+ * Get writing posts and work projects tagged with a tag or any of its
+ * child tags
+ */
+export function getContentByTag(
+  tagId: TagId,
+  posts: readonly WritingPost[],
+  projects: readonly WorkProject[]
+): TaggedContent {
+  return {
+    posts: filterByTags(posts, [tagId]),
+    projects: filterByTags(projects, [tagId]),
+  };
+}
+
+/**
+ * Count how many posts and projects use each tag.
+ * Entries count towards a tag's parents too (once per entry).
+ */
+export function getTagUsageCounts(
+  posts: readonly WritingPost[],
+  projects: readonly WorkProject[]
+): ReadonlyMap<TagId, number> {
+  const counts = new Map<TagId, number>();
+
+  for (const item of [...posts, ...projects]) {
+    const tagIds = new Set(
+      item.tags.flatMap((tagId) => [tagId, ...getTagAncestorIds(tagId)])
+    );
+    for (const tagId of tagIds) {
+      counts.set(tagId, (counts.get(tagId) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
 // ============================================================================
 // Statistics
 // ============================================================================
@@ -434,17 +601,28 @@ export function getContentStats(
 // ============================================================================
 
 /**
- * Filter content by tags
+ * Filter content by tags.
+ * "any" keeps items with at least one of the tags, "all" items with
+ * every tag.
  */
 export function filterByTags<T extends { readonly tags: readonly TagId[] }>(
   items: readonly T[],
-  tagIds: readonly TagId[]
+  tagIds: readonly TagId[],
+  match: FilterMatchMode = "any"
 ): readonly T[] {
   if (tagIds.length === 0) {
     return items;
   }
 
-  const tagSet = new Set(tagIds);
+  // Parent tags also match content tagged with their children
+  if (match === "all") {
+    const tagSets = tagIds.map((tagId) => new Set(expandTagIds([tagId])));
+    return items.filter((item) =>
+      tagSets.every((tagSet) => item.tags.some((tag) => tagSet.has(tag)))
+    );
+  }
+
+  const tagSet = new Set(expandTagIds(tagIds));
   return items.filter((item) => item.tags.some((tag) => tagSet.has(tag)));
 }
 
@@ -467,7 +645,7 @@ export function filterByQuery<
 }
 
 /**
- * Filter writing posts by published status
+ * Filter writing posts by published status (excludes drafts and scheduled)
  */
 export function filterPublishedPosts(
   posts: readonly WritingPost[]
@@ -488,4 +666,12 @@ export function filterFeaturedProjects(
 // Export Types
 // ============================================================================
 
-export type { WritingPost, WorkProject, Tag, TagId, ContentStats };
+export type {
+  WritingPost,
+  WorkProject,
+  Tag,
+  TagId,
+  ContentStats,
+  PublishStatus,
+  TaggedContent,
+};
@@ -0,0 +1,137 @@
+/**
+ * Cross-Reference Utilities
+ *
+ * Posts list the projects they discuss (`projects`) and projects list the
+ * posts written about them (`posts`). References are validated against the
+ * collections at build time and resolved in both directions, so a link
+ * declared on either side shows up on both detail pages.
+ */
+
+import { z } from "astro/zod";
+import type { WorkProject, WritingPost } from "@/types/index";
+import { formatZodError } from "@/schemas/content";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ReferenceEntry {
+  readonly id: string;
+  readonly data: {
+    readonly projects?: readonly string[] | undefined;
+    readonly posts?: readonly string[] | undefined;
+  };
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+class CrossReferenceError extends Error {
+  constructor(
+    message: string,
+    public readonly references: readonly string[]
+  ) {
+    super(message);
+    this.name = "CrossReferenceError";
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Schema for a list of ids that must exist in a collection
+ */
+function createIdListSchema(ids: ReadonlySet<string>, label: string) {
+  return z
+    .array(z.string())
+    .default([])
+    .superRefine((values, ctx) => {
+      values.forEach((id, index) => {
+        if (!ids.has(id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown ${label} "${id}"`,
+            path: [index],
+          });
+        }
+      });
+    });
+}
+
+/**
+ * Build a schema that only accepts ids present in the given collections
+ */
+function createReferenceSchema(
+  writingIds: ReadonlySet<string>,
+  workIds: ReadonlySet<string>
+) {
+  return z.object({
+    projects: createIdListSchema(workIds, "work project"),
+    posts: createIdListSchema(writingIds, "writing post"),
+  });
+}
+
+/**
+ * Validate `projects`/`posts` references of every entry.
+ * Throws (failing the build) when any reference points at a missing entry.
+ */
+export function validateCrossReferences(
+  writingEntries: readonly ReferenceEntry[],
+  workEntries: readonly ReferenceEntry[]
+): void {
+  const schema = createReferenceSchema(
+    new Set(writingEntries.map((entry) => entry.id)),
+    new Set(workEntries.map((entry) => entry.id))
+  );
+
+  const errors = [
+    ...writingEntries.map((entry) => ({ key: `writing/${entry.id}`, entry })),
+    ...workEntries.map((entry) => ({ key: `work/${entry.id}`, entry })),
+  ].flatMap(({ key, entry }) => {
+    const result = schema.safeParse({
+      projects: entry.data.projects,
+      posts: entry.data.posts,
+    });
+    return result.success ? [] : [`${key}: ${formatZodError(result.error)}`];
+  });
+
+  if (errors.length > 0) {
+    throw new CrossReferenceError(
+      `[CrossReferences] Invalid references:\n  ${errors.join("\n  ")}`,
+      errors
+    );
+  }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Get projects linked to a post, declared on either side
+ */
+export function getLinkedProjects(
+  post: Pick<WritingPost, "id" | "projects">,
+  projects: readonly WorkProject[]
+): readonly WorkProject[] {
+  return projects.filter(
+    (project) =>
+      post.projects.includes(project.id) || project.posts.includes(post.id)
+  );
+}
+
+/**
+ * Get posts linked to a project, declared on either side
+ */
+export function getLinkedPosts(
+  project: Pick<WorkProject, "id" | "posts">,
+  posts: readonly WritingPost[]
+): readonly WritingPost[] {
+  return posts.filter(
+    (post) =>
+      project.posts.includes(post.id) || post.projects.includes(project.id)
+  );
+}
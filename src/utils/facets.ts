@@ -0,0 +1,234 @@
+/**
+ * Facet Utilities
+ *
+ * Build-time facets for the filter bars: content type, tag category,
+ * date range and reading time. Items carry their facet values as
+ * `data-<type>-<attribute>` attributes; `src/scripts/filter.ts` reads them
+ * to filter, count and serialise the selection to the URL.
+ *
+ * Facets with fewer than two values are left out, so content type only
+ * shows on listings that mix writing and work (e.g., tag pages). The date
+ * range spans years, the one date projects and posts both have.
+ */
+
+import type {
+  ContentType,
+  Facet,
+  FacetId,
+  FacetValue,
+  RangeFacet,
+  ToggleFacet,
+  WorkProject,
+  WritingPost,
+} from "@/types/index";
+import { CONTENT_TYPES } from "@/types/index";
+import { TAG_CATEGORIES, getTagsByIds } from "@/config/tags.config";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type FacetContent = WritingPost | WorkProject;
+
+type FacetDefinition = Omit<ToggleFacet, "values"> | Omit<RangeFacet, "values">;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FACET_DEFINITIONS: readonly FacetDefinition[] = [
+  {
+    id: "contentType",
+    label: "Type",
+    control: "toggle",
+    param: "type",
+    attribute: "content-type",
+  },
+  {
+    id: "category",
+    label: "Category",
+    control: "toggle",
+    param: "category",
+    attribute: "categories",
+  },
+  {
+    id: "date",
+    label: "Year",
+    control: "range",
+    fromParam: "from",
+    toParam: "to",
+    attribute: "year",
+  },
+  {
+    id: "readingTime",
+    label: "Reading Time",
+    control: "toggle",
+    param: "time",
+    attribute: "read-time",
+  },
+];
+
+const CONTENT_TYPE_LABELS: Partial<Record<ContentType, string>> = {
+  [CONTENT_TYPES.POST]: "Writing",
+  [CONTENT_TYPES.PROJECT]: "Work",
+};
+
+/** Reading-time buckets in minutes, [min, max) */
+const READING_TIME_BUCKETS = [
+  { value: "short", label: "Under 5 min", min: 0, max: 5 },
+  { value: "medium", label: "5–10 min", min: 5, max: 10 },
+  { value: "long", label: "10+ min", min: 10, max: Number.MAX_SAFE_INTEGER },
+] as const;
+
+const CATEGORY_ORDER: readonly string[] = Object.values(TAG_CATEGORIES);
+
+// ============================================================================
+// Item Values
+// ============================================================================
+
+/**
+ * Tag categories used by an item, in registry order
+ */
+function getItemCategories(item: FacetContent): string[] {
+  const categories = new Set<string>(
+    getTagsByIds(item.tags).map((tag) => tag.category)
+  );
+  return CATEGORY_ORDER.filter((category) => categories.has(category));
+}
+
+/**
+ * Publication year of a post, or the year of a project
+ */
+function getItemYear(item: FacetContent): string {
+  return item.type === CONTENT_TYPES.POST
+    ? String(item.dateObj.getUTCFullYear())
+    : item.year;
+}
+
+/**
+ * Reading time in minutes (posts only)
+ */
+function getItemReadingMinutes(item: FacetContent): number | undefined {
+  return item.type === CONTENT_TYPES.POST ? item.readingMinutes : undefined;
+}
+
+/**
+ * Facet values of an item (reading time and year are raw numbers)
+ */
+function getItemFacetValues(
+  item: FacetContent
+): Record<FacetId, readonly string[]> {
+  const minutes = getItemReadingMinutes(item);
+
+  return {
+    contentType: [item.type],
+    category: getItemCategories(item),
+    date: [getItemYear(item)],
+    readingTime: minutes === undefined ? [] : [String(minutes)],
+  };
+}
+
+// ============================================================================
+// Facet Values
+// ============================================================================
+
+/**
+ * Count items per value of a list facet
+ */
+function countValues(
+  items: readonly FacetContent[],
+  id: FacetId
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const value of getItemFacetValues(item)[id]) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Values of one facet, in display order
+ */
+function getFacetValues(
+  items: readonly FacetContent[],
+  id: FacetId
+): FacetValue[] {
+  if (id === "readingTime") {
+    const minutes = items.flatMap((item) => {
+      const value = getItemReadingMinutes(item);
+      return value === undefined ? [] : [value];
+    });
+
+    return READING_TIME_BUCKETS.map((bucket) => ({
+      ...bucket,
+      count: minutes.filter(
+        (value) => value >= bucket.min && value < bucket.max
+      ).length,
+    })).filter((bucket) => bucket.count > 0);
+  }
+
+  const counts = countValues(items, id);
+  const values = [...counts.keys()];
+
+  if (id === "contentType") {
+    const order = Object.keys(CONTENT_TYPE_LABELS);
+    values.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  } else if (id === "category") {
+    values.sort(
+      (a, b) => CATEGORY_ORDER.indexOf(a) - CATEGORY_ORDER.indexOf(b)
+    );
+  } else if (id === "date") {
+    // Oldest first, so the from/to lists read in order
+    values.sort((a, b) => Number(a) - Number(b));
+  }
+
+  return values.map((value) => ({
+    value,
+    label:
+      id === "contentType"
+        ? (CONTENT_TYPE_LABELS[value as ContentType] ?? value)
+        : value,
+    count: counts.get(value) ?? 0,
+  }));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the facets for a listing; facets with a single value are skipped
+ */
+export function buildFacets(items: readonly FacetContent[]): Facet[] {
+  return FACET_DEFINITIONS.map(
+    (definition): Facet => ({
+      ...definition,
+      values: getFacetValues(items, definition.id),
+    })
+  ).filter((facet) => facet.values.length > 1);
+}
+
+/**
+ * Data attributes an item needs for faceted filtering
+ * (e.g., `data-writing-year="2024"`)
+ */
+export function getFacetAttributes(
+  type: string,
+  item: FacetContent
+): Record<string, string> {
+  const values = getItemFacetValues(item);
+
+  return Object.fromEntries(
+    FACET_DEFINITIONS.filter(({ id }) => values[id].length > 0).map(
+      ({ id, attribute }) => [`data-${type}-${attribute}`, values[id].join(",")]
+    )
+  );
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { Facet, FacetId, FacetValue };
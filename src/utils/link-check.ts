@@ -0,0 +1,259 @@
+/**
+ * Link Check Utilities
+ *
+ * Finds links in MDX sources and rendered HTML and checks them against the
+ * generated site: internal hrefs must resolve to a built route and their
+ * `#fragment` to an id on the target page. Builds run offline, so external
+ * links are only checked for syntax (and optionally against an allowlist).
+ */
+
+// Relative imports: this module is also loaded from astro.config.mjs
+import { isValidURL } from "./format";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FoundLink {
+  /** Source file, or the page route for links in rendered pages */
+  readonly file: string;
+  /** Source line (links in MDX sources only) */
+  readonly line?: number;
+  readonly href: string;
+  /** Route the href is relative to (e.g., "writing/grid-systems") */
+  readonly route: string;
+}
+
+export interface LinkIssue extends FoundLink {
+  readonly reason: string;
+}
+
+export interface SiteIndex {
+  /** Heading and element ids per route ("" is the home page) */
+  readonly routes: ReadonlyMap<string, ReadonlySet<string>>;
+  /** Whether a non-page file (asset, feed, public file) exists */
+  readonly hasFile: (path: string) => boolean;
+}
+
+export interface LinkCheckOptions {
+  /** Site origin; absolute links to it are checked as internal */
+  readonly site?: string | undefined;
+  /** Allowed external hostnames (subdomains match); unset allows any */
+  readonly allowlist?: readonly string[] | undefined;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Markdown links `[text](href "title")` and JSX/HTML `<a href="...">text</a>` */
+export const MDX_LINK_PATTERN =
+  /(?<!!)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|<a\s[^>]*?href=\{?["']([^"']+)["']\}?[^>]*>([\s\S]*?)<\/a>/g;
+
+const HTML_LINK_PATTERN = /<a\s[^>]*?href=(?:"([^"]*)"|'([^']*)')/g;
+
+const HTML_ID_PATTERN = /\sid=(?:"([^"]+)"|'([^']+)')/g;
+
+/** Route prefix each content collection is rendered under */
+const CONTENT_ROUTES: Readonly<Record<string, string>> = {
+  writing: "writing",
+  work: "work",
+  series: "writing/series",
+  authors: "authors",
+};
+
+const IGNORED_SCHEMES = /^(?:mailto|tel|javascript|data|sms):/i;
+
+/** Base used to resolve relative hrefs; never requested */
+const INTERNAL_ORIGIN = "https://internal.invalid";
+
+// ============================================================================
+// Link Discovery
+// ============================================================================
+
+/**
+ * Get the 1-based line number of an offset
+ */
+function getLineNumber(text: string, index: number): number {
+  return text.slice(0, index).split("\n").length;
+}
+
+/**
+ * Normalize a URL pathname to a route key ("/writing/x/" → "writing/x")
+ */
+export function toRouteKey(pathname: string): string {
+  return decodeURIComponent(pathname)
+    .replace(/\/index\.html$/, "")
+    .replace(/\.html$/, "")
+    .replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Get the route a content entry is rendered at from its path relative to
+ * the content directory ("series/swiss.mdx" → "writing/series/swiss"),
+ * or null for collections without pages
+ */
+export function getContentRoute(entryPath: string): string | null {
+  const [collection, ...rest] = entryPath.replace(/\.mdx$/, "").split("/");
+  const prefix = collection ? CONTENT_ROUTES[collection] : undefined;
+  return prefix && rest.length > 0 ? `${prefix}/${rest.join("/")}` : null;
+}
+
+/**
+ * Find markdown and JSX links in an MDX source file
+ */
+export function findMdxLinks(
+  source: string,
+  file: string,
+  route: string
+): FoundLink[] {
+  // Blank out code so offsets (and line numbers) stay aligned
+  const searchable = source.replace(/```[\s\S]*?```|`[^`\n]*`/g, (code) =>
+    code.replace(/[^\n]/g, " ")
+  );
+
+  return [...searchable.matchAll(MDX_LINK_PATTERN)].flatMap((match) => {
+    const href = match[2] ?? match[3];
+    return href
+      ? [{ file, line: getLineNumber(source, match.index), href, route }]
+      : [];
+  });
+}
+
+/**
+ * Find anchor hrefs in a rendered HTML page; they are reported by route,
+ * since line numbers in built HTML don't point back to a source
+ */
+export function findHtmlLinks(html: string, route: string): FoundLink[] {
+  return [...html.matchAll(HTML_LINK_PATTERN)].map((match) => ({
+    file: `/${route}`,
+    href: decodeHtmlEntities(match[1] ?? match[2] ?? ""),
+    route,
+  }));
+}
+
+/**
+ * Collect the ids a fragment can target on a rendered page
+ */
+export function findHtmlIds(html: string): Set<string> {
+  return new Set(
+    [...html.matchAll(HTML_ID_PATTERN)].map((match) =>
+      decodeHtmlEntities(match[1] ?? match[2] ?? "")
+    )
+  );
+}
+
+/**
+ * Decode the entities Astro emits inside attribute values
+ */
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Check whether an external hostname is on the allowlist
+ */
+function isAllowedHost(hostname: string, allowlist: readonly string[]) {
+  return allowlist.some(
+    (allowed) => hostname === allowed || hostname.endsWith(`.${allowed}`)
+  );
+}
+
+/**
+ * Check an external link for syntax and allowlist membership
+ */
+function checkExternalLink(
+  href: string,
+  options: LinkCheckOptions
+): string | null {
+  const absolute = href.startsWith("//") ? `https:${href}` : href;
+  if (!isValidURL(absolute)) {
+    return "Malformed external URL";
+  }
+
+  const { hostname } = new URL(absolute);
+  if (options.allowlist && !isAllowedHost(hostname, options.allowlist)) {
+    return `External host "${hostname}" is not on the allowlist`;
+  }
+
+  return null;
+}
+
+/**
+ * Check a single link, returning the reason it is broken (or null)
+ */
+export function checkLink(
+  link: FoundLink,
+  site: SiteIndex,
+  options: LinkCheckOptions = {}
+): string | null {
+  const { href } = link;
+  if (href === "" || href === "#" || IGNORED_SCHEMES.test(href)) {
+    return null;
+  }
+
+  const siteOrigin = options.site ? new URL(options.site).origin : null;
+  const isAbsolute = /^[a-z][a-z\d+.-]*:/i.test(href) || href.startsWith("//");
+  if (isAbsolute) {
+    const sameSite =
+      siteOrigin !== null &&
+      isValidURL(href) &&
+      new URL(href).origin === siteOrigin;
+    if (!sameSite) {
+      return checkExternalLink(href, options);
+    }
+  }
+
+  let url: URL;
+  try {
+    url = new URL(href, `${INTERNAL_ORIGIN}/${link.route}/`);
+  } catch {
+    return "Malformed internal URL";
+  }
+
+  const route = toRouteKey(url.pathname);
+  const ids = site.routes.get(route);
+  if (!ids) {
+    return site.hasFile(route) ? null : `No page for "/${route}"`;
+  }
+
+  const fragment = decodeURIComponent(url.hash.slice(1));
+  if (fragment && !ids.has(fragment)) {
+    return `No id "${fragment}" on "/${route}"`;
+  }
+
+  return null;
+}
+
+/**
+ * Check links and collect the broken ones
+ */
+export function checkLinks(
+  links: readonly FoundLink[],
+  site: SiteIndex,
+  options: LinkCheckOptions = {}
+): LinkIssue[] {
+  return links.flatMap((link) => {
+    const reason = checkLink(link, site, options);
+    return reason ? [{ ...link, reason }] : [];
+  });
+}
+
+/**
+ * Format an issue as "file:line href — reason" ("/route href — reason"
+ * for links in rendered pages)
+ */
+export function formatLinkIssue(issue: LinkIssue): string {
+  const location =
+    issue.line === undefined ? issue.file : `${issue.file}:${issue.line}`;
+  return `${location} ${issue.href} — ${issue.reason}`;
+}
@@ -0,0 +1,125 @@
+/**
+ * Link Graph Tests
+ *
+ * Builds the graph from fixture entries instead of site content, so the
+ * backlink rules don't depend on what the published posts happen to link.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Slug, WorkProject, WritingPost } from "@/types/index";
+import {
+  buildLinkGraph,
+  extractLinks,
+  getBacklinks,
+  parseInternalTarget,
+} from "@/utils/link-graph";
+import type { RelatedSource } from "@/utils/related";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function post(id: string, title: string): WritingPost {
+  return { type: "post", id, slug: id, title } as unknown as WritingPost;
+}
+
+function project(id: string, title: string): WorkProject {
+  return {
+    type: "project",
+    id: id as Slug,
+    title,
+    link: `/work/${id}`,
+  } as unknown as WorkProject;
+}
+
+const SOURCES: readonly RelatedSource[] = [
+  {
+    item: post("grids", "Grids"),
+    body: "A grid is a [system](/writing/constraints#rules) of rules.",
+  },
+  {
+    item: post("constraints", "Constraints"),
+    body: [
+      "Constraints shape the [grid tool](/work/grid-tool).",
+      "",
+      "- Also [the grid tool](/work/grid-tool/) again",
+      "- A [self link](/writing/constraints)",
+      "- A [missing post](/writing/missing)",
+      "",
+      "```md",
+      "[in code](/writing/grids)",
+      "```",
+    ].join("\n"),
+  },
+  {
+    item: project("grid-tool", "Grid Tool"),
+    body: '<a href="/writing/grids">Read about grids</a>',
+  },
+];
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("parseInternalTarget", () => {
+  it("resolves writing and work hrefs with their anchor", () => {
+    assert.deepEqual(parseInternalTarget("/writing/grids/#history"), {
+      key: "writing/grids",
+      anchor: "history",
+    });
+    assert.deepEqual(parseInternalTarget("/work/grid-tool"), {
+      key: "work/grid-tool",
+      anchor: undefined,
+    });
+  });
+
+  it("ignores relative, external and non-entry hrefs", () => {
+    assert.equal(parseInternalTarget("grids"), null);
+    assert.equal(parseInternalTarget("//example.com/writing/grids"), null);
+    assert.equal(parseInternalTarget("/tags/design"), null);
+    assert.equal(parseInternalTarget("/writing/series/swiss"), null);
+  });
+});
+
+describe("extractLinks", () => {
+  it("keeps the containing block as the excerpt and skips code", () => {
+    const links = extractLinks(SOURCES[1]?.body ?? "");
+
+    assert.deepEqual(
+      links.map((link) => link.href),
+      [
+        "/work/grid-tool",
+        "/work/grid-tool/",
+        "/writing/constraints",
+        "/writing/missing",
+      ]
+    );
+    assert.equal(links[0]?.excerpt, "Constraints shape the grid tool.");
+  });
+});
+
+describe("buildLinkGraph", () => {
+  const graph = buildLinkGraph(SOURCES);
+
+  it("keeps one edge per pair and drops self and unknown targets", () => {
+    assert.deepEqual(
+      graph.edges.map((edge) => `${edge.source}→${edge.target}`),
+      [
+        "writing/grids→writing/constraints",
+        "writing/constraints→work/grid-tool",
+        "work/grid-tool→writing/grids",
+      ]
+    );
+    assert.equal(graph.edges[0]?.anchor, "rules");
+  });
+
+  it("lists backlinks with the linking entry and text", () => {
+    const backlinks = getBacklinks(graph, "writing/grids");
+
+    assert.equal(backlinks.length, 1);
+    assert.equal(backlinks[0]?.source.key, "work/grid-tool");
+    assert.equal(backlinks[0]?.text, "Read about grids");
+    assert.deepEqual(getBacklinks(graph, "writing/missing"), []);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Link Graph Utilities
+ *
+ * Scans MDX bodies at build time for links to `/writing/*` and `/work/*`
+ * and builds a graph of internal links between entries. The graph powers
+ * the "Referenced by" sections and is published as `/link-graph.json`.
+ */
+
+import type {
+  Backlink,
+  LinkGraph,
+  LinkGraphEdge,
+  LinkGraphNode,
+} from "@/types/index";
+import {
+  getContentKey,
+  getContentUrl,
+  type RelatedSource,
+} from "@/utils/related";
+import { truncateText } from "@/utils/format";
+import { MDX_LINK_PATTERN } from "@/utils/link-check";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MdxLink {
+  readonly href: string;
+  readonly text: string;
+  readonly excerpt: string;
+}
+
+export interface InternalTarget {
+  readonly key: string;
+  readonly anchor?: string | undefined;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXCERPT_LENGTH = 240;
+
+const INTERNAL_COLLECTIONS = new Set(["writing", "work"]);
+
+// ============================================================================
+// Link Extraction
+// ============================================================================
+
+/**
+ * Reduce a block of MDX to readable excerpt text (keeps in-word hyphens)
+ */
+function toExcerpt(block: string): string {
+  return truncateText(
+    block
+      .replace(/<[^>]+>/g, " ")
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/^\s*(?:[-*+]|\d+\.|#+|>)\s+/gm, "")
+      .replace(/[*_~|]+/g, "")
+      .replace(/\s+/g, " ")
+      .trim(),
+    EXCERPT_LENGTH
+  );
+}
+
+/**
+ * Split an MDX body into blocks (paragraphs and individual list items).
+ * Code blocks, inline code and import/export lines are dropped.
+ */
+function splitBlocks(mdx: string): string[] {
+  return mdx
+    .replace(/```[\s\S]*?```/g, "\n\n")
+    .replace(/`[^`\n]*`/g, " ")
+    .replace(/^\s*(?:import|export)\s.*$/gm, "")
+    .split(/\n\s*\n|\n(?=\s*(?:[-*+]|\d+\.)\s)/)
+    .filter((block) => block.trim().length > 0);
+}
+
+/**
+ * Extract every link from an MDX body with the block that contains it
+ */
+export function extractLinks(mdx: string): MdxLink[] {
+  const links: MdxLink[] = [];
+
+  for (const block of splitBlocks(mdx)) {
+    const excerpt = toExcerpt(block);
+
+    for (const match of block.matchAll(MDX_LINK_PATTERN)) {
+      const href = match[2] ?? match[3];
+      if (!href) continue;
+
+      links.push({
+        href,
+        text: toExcerpt(match[1] ?? match[4] ?? ""),
+        excerpt,
+      });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Resolve a root-relative href to a writing/work entry key
+ * (e.g., "/writing/grid-systems/#history" → "writing/grid-systems")
+ */
+export function parseInternalTarget(href: string): InternalTarget | null {
+  if (!href.startsWith("/") || href.startsWith("//")) {
+    return null;
+  }
+
+  const url = new URL(href, "https://internal.invalid");
+  const segments = url.pathname.split("/").filter(Boolean);
+  const [collection, id] = segments;
+
+  if (segments.length !== 2 || !collection || !id) {
+    return null;
+  }
+  if (!INTERNAL_COLLECTIONS.has(collection)) {
+    return null;
+  }
+
+  return {
+    key: `${collection}/${decodeURIComponent(id)}`,
+    anchor: url.hash ? decodeURIComponent(url.hash.slice(1)) : undefined,
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the internal link graph for a corpus.
+ * Keeps the first link per source/target pair and ignores self-links and
+ * links to entries outside the corpus.
+ */
+export function buildLinkGraph(sources: readonly RelatedSource[]): LinkGraph {
+  const nodes: LinkGraphNode[] = sources.map(({ item }) => ({
+    key: getContentKey(item),
+    type: item.type,
+    title: item.title,
+    url: getContentUrl(item),
+  }));
+  const keys = new Set(nodes.map((node) => node.key));
+  const edges: LinkGraphEdge[] = [];
+  const seen = new Set<string>();
+
+  sources.forEach(({ item, body }) => {
+    const source = getContentKey(item);
+
+    for (const link of extractLinks(body ?? "")) {
+      const target = parseInternalTarget(link.href);
+      if (!target || target.key === source || !keys.has(target.key)) {
+        continue;
+      }
+
+      const pair = `${source}→${target.key}`;
+      if (seen.has(pair)) continue;
+      seen.add(pair);
+
+      edges.push({
+        source,
+        target: target.key,
+        text: link.text,
+        excerpt: link.excerpt,
+        ...(target.anchor && { anchor: target.anchor }),
+      });
+    }
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Get incoming links for an entry, in corpus order
+ */
+export function getBacklinks(graph: LinkGraph, key: string): Backlink[] {
+  const nodes = new Map(graph.nodes.map((node) => [node.key, node]));
+
+  return graph.edges
+    .filter((edge) => edge.target === key)
+    .flatMap((edge) => {
+      const source = nodes.get(edge.source);
+      return source ? [{ source, text: edge.text, excerpt: edge.excerpt }] : [];
+    });
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { Backlink, LinkGraph, LinkGraphEdge, LinkGraphNode };
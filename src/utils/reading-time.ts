@@ -0,0 +1,97 @@
+/**
+ * Reading Time Utilities
+ *
+ * Single source of truth for reading time, computed at build time from
+ * the raw MDX body. Prose and code are read at different speeds and each
+ * image adds a fixed number of seconds.
+ */
+
+import { CONTENT_CONFIG } from "@/config/site.config";
+import { extractPlainText, stripCode } from "@/utils/text";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReadingTimeOptions {
+  readonly wordsPerMinute: number;
+  readonly codeWordsPerMinute: number;
+  readonly secondsPerImage: number;
+}
+
+export interface ReadingTime {
+  readonly minutes: number;
+  readonly words: number;
+  readonly codeWords: number;
+  readonly images: number;
+}
+
+const DEFAULT_OPTIONS: ReadingTimeOptions = {
+  wordsPerMinute: CONTENT_CONFIG.wordsPerMinute,
+  codeWordsPerMinute: CONTENT_CONFIG.readingTime.codeWordsPerMinute,
+  secondsPerImage: CONTENT_CONFIG.readingTime.secondsPerImage,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Count images outside code, so image markup shown in code samples
+ * isn't charged as an image
+ */
+function countImages(mdx: string): number {
+  const content = stripCode(mdx);
+  const markdownImages = content.match(/!\[[^\]]*\]\([^)]*\)/g) ?? [];
+  const jsxImages = content.match(/<(?:img|Image|OptimizedImage)\b/g) ?? [];
+  return markdownImages.length + jsxImages.length;
+}
+
+function countCodeWords(mdx: string): number {
+  const blocks = mdx.match(/```[\s\S]*?```/g) ?? [];
+  return blocks.reduce(
+    (total, block) =>
+      total + countWords(block.replace(/^```.*$/gm, "").replace(/\W+/g, " ")),
+    0
+  );
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Calculate reading time from raw MDX content
+ */
+export function calculateReadingTime(
+  content: string,
+  options: ReadingTimeOptions = DEFAULT_OPTIONS
+): ReadingTime {
+  const words = countWords(extractPlainText(content));
+  const codeWords = countCodeWords(content);
+  const images = countImages(content);
+
+  const seconds =
+    (words / options.wordsPerMinute) * 60 +
+    (codeWords / options.codeWordsPerMinute) * 60 +
+    images * options.secondsPerImage;
+
+  return {
+    minutes: Math.max(1, Math.ceil(seconds / 60)),
+    words,
+    codeWords,
+    images,
+  };
+}
+
+/**
+ * Format reading time minutes for display (e.g., "5 min read")
+ */
+export function formatReadTime(minutes: number): string {
+  return `${minutes} min read`;
+}
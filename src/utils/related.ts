@@ -0,0 +1,397 @@
+/**
+ * Related Content Engine
+ *
+ * Build-time scoring of related writing posts and work projects.
+ * Combines weighted tag overlap (from the tag registry) with TF-IDF term
+ * similarity over titles, summaries and MDX bodies. Authors can pin or
+ * exclude items through the `related` frontmatter field.
+ */
+
+import type {
+  ContentType,
+  RelatedItem,
+  Slug,
+  TagId,
+  WorkProject,
+  WritingPost,
+} from "@/types/index";
+import { CONTENT_TYPES } from "@/types/index";
+import { getTagById } from "@/config/tags.config";
+import { CONTENT_CONFIG } from "@/config/site.config";
+import { extractPlainText } from "@/utils/text";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RelatedContent = WritingPost | WorkProject;
+
+export interface RelatedSource {
+  readonly item: RelatedContent;
+  readonly body?: string | undefined;
+}
+
+export interface RelatedOptions {
+  readonly minItems: number;
+  readonly maxItems: number;
+  readonly tagWeight: number;
+  readonly termWeight: number;
+  readonly categoryWeights: Readonly<Record<string, number>>;
+}
+
+type TermVector = ReadonlyMap<string, number>;
+
+interface ScoredDocument {
+  readonly key: string;
+  readonly item: RelatedContent;
+  readonly vector: TermVector;
+}
+
+// ============================================================================
+// Text Processing
+// ============================================================================
+
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "also",
+  "and",
+  "are",
+  "because",
+  "been",
+  "before",
+  "being",
+  "between",
+  "both",
+  "but",
+  "can",
+  "could",
+  "does",
+  "each",
+  "even",
+  "every",
+  "for",
+  "from",
+  "had",
+  "has",
+  "have",
+  "how",
+  "into",
+  "its",
+  "just",
+  "like",
+  "more",
+  "most",
+  "much",
+  "not",
+  "now",
+  "only",
+  "other",
+  "our",
+  "over",
+  "should",
+  "some",
+  "such",
+  "than",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "through",
+  "under",
+  "very",
+  "was",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "who",
+  "why",
+  "will",
+  "with",
+  "without",
+  "would",
+  "you",
+  "your",
+]);
+
+/**
+ * Tokenize text into lowercase terms without stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9]+/g) ?? []).filter(
+    (term) => term.length > 2 && !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Build TF-IDF vectors for a corpus of token lists
+ */
+export function buildTfIdfVectors(
+  documents: readonly (readonly string[])[]
+): TermVector[] {
+  const documentFrequency = new Map<string, number>();
+
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return documents.map((terms) => {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) {
+      const idf = Math.log(
+        (1 + documents.length) / (1 + (documentFrequency.get(term) ?? 0))
+      );
+      vector.set(term, (count / terms.length) * (idf + 1));
+    }
+    return vector;
+  });
+}
+
+/**
+ * Cosine similarity between two sparse vectors
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other !== undefined) {
+      dot += weight * other;
+    }
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ============================================================================
+// Content Keys
+// ============================================================================
+
+/**
+ * Get the cross-collection key for an item ("writing/<slug>" or "work/<slug>")
+ */
+export function getContentKey(item: {
+  readonly type: ContentType;
+  readonly id: string;
+}): string {
+  return item.type === CONTENT_TYPES.POST
+    ? `writing/${item.id}`
+    : `work/${item.id}`;
+}
+
+/**
+ * Get the page URL for an item
+ */
+export function getContentUrl(item: RelatedContent): string {
+  return item.type === CONTENT_TYPES.POST ? `/writing/${item.slug}` : item.link;
+}
+
+/**
+ * Pair processed items with their raw MDX bodies
+ */
+export function createRelatedSources(
+  items: readonly RelatedContent[],
+  entries: readonly {
+    readonly id: string;
+    readonly body?: string | undefined;
+  }[]
+): RelatedSource[] {
+  const bodies = new Map(entries.map((entry) => [entry.id, entry.body]));
+  return items.map((item) => ({ item, body: bodies.get(item.id) }));
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Weighted tag overlap (weighted Jaccard).
+ * Each tag is weighted by its registry category and corpus rarity.
+ */
+function scoreTagOverlap(
+  a: readonly TagId[],
+  b: readonly TagId[],
+  tagWeights: ReadonlyMap<TagId, number>
+): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  let union = 0;
+
+  for (const tag of new Set([...setA, ...setB])) {
+    const weight = tagWeights.get(tag) ?? 0;
+    union += weight;
+    if (setA.has(tag) && setB.has(tag)) {
+      shared += weight;
+    }
+  }
+
+  return union > 0 ? shared / union : 0;
+}
+
+/**
+ * Compute per-tag weights from registry categories and document frequency
+ */
+function computeTagWeights(
+  items: readonly RelatedContent[],
+  categoryWeights: Readonly<Record<string, number>>
+): Map<TagId, number> {
+  const frequency = new Map<TagId, number>();
+  for (const item of items) {
+    for (const tag of item.tags) {
+      frequency.set(tag, (frequency.get(tag) ?? 0) + 1);
+    }
+  }
+
+  const weights = new Map<TagId, number>();
+  for (const [tagId, count] of frequency) {
+    const tag = getTagById(tagId);
+    if (!tag) continue;
+
+    const categoryWeight = categoryWeights[tag.category] ?? 1;
+    const rarity = Math.log((1 + items.length) / count) + 1;
+    weights.set(tagId, categoryWeight * rarity);
+  }
+
+  return weights;
+}
+
+function toRelatedItem(
+  document: ScoredDocument,
+  score: number,
+  pinned: boolean
+): RelatedItem {
+  const { item, key } = document;
+  return {
+    key,
+    type: item.type,
+    id: item.id as Slug,
+    title: item.title,
+    description:
+      item.type === CONTENT_TYPES.POST ? item.excerpt : item.description,
+    url: getContentUrl(item),
+    tags: item.tags,
+    score: Math.round(score * 1000) / 1000,
+    pinned,
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the related content index for every item in the corpus.
+ * Returns a map keyed by content key ("writing/<slug>" or "work/<slug>").
+ */
+export function buildRelatedIndex(
+  sources: readonly RelatedSource[],
+  options: RelatedOptions = CONTENT_CONFIG.related
+): ReadonlyMap<string, readonly RelatedItem[]> {
+  const items = sources.map((source) => source.item);
+  const tagWeights = computeTagWeights(items, options.categoryWeights);
+  const vectors = buildTfIdfVectors(
+    sources.map(({ item, body }) =>
+      tokenize(
+        [
+          item.title,
+          item.title,
+          item.description,
+          item.type === CONTENT_TYPES.POST ? item.excerpt : "",
+          extractPlainText(body ?? ""),
+        ].join(" ")
+      )
+    )
+  );
+
+  const documents: ScoredDocument[] = sources.map(({ item }, i) => ({
+    key: getContentKey(item),
+    item,
+    vector: vectors[i] ?? new Map(),
+  }));
+  const byKey = new Map(documents.map((document) => [document.key, document]));
+  const index = new Map<string, readonly RelatedItem[]>();
+
+  for (const document of documents) {
+    const override = document.item.related;
+    const excluded = new Set([document.key, ...(override?.exclude ?? [])]);
+
+    const pinned: RelatedItem[] = [];
+    for (const key of override?.pin ?? []) {
+      const target = byKey.get(key);
+      if (!target) {
+        console.warn(
+          `[Related] "${document.key}" pins unknown or unpublished item "${key}"`
+        );
+        continue;
+      }
+      if (!excluded.has(key)) {
+        pinned.push(toRelatedItem(target, 1, true));
+        excluded.add(key);
+      }
+    }
+
+    const scored = documents
+      .filter((candidate) => !excluded.has(candidate.key))
+      .map((candidate) => ({
+        candidate,
+        score:
+          options.tagWeight *
+            scoreTagOverlap(
+              document.item.tags,
+              candidate.item.tags,
+              tagWeights
+            ) +
+          options.termWeight *
+            cosineSimilarity(document.vector, candidate.vector),
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.candidate.key.localeCompare(b.candidate.key)
+      );
+
+    const remaining = Math.max(0, options.maxItems - pinned.length);
+    const minimum = Math.max(0, options.minItems - pinned.length);
+    const relevant = scored.filter(({ score }) => score > 0);
+    const selected = (
+      relevant.length >= minimum ? relevant : scored.slice(0, minimum)
+    ).slice(0, remaining);
+
+    index.set(document.key, [
+      ...pinned,
+      ...selected.map(({ candidate, score }) =>
+        toRelatedItem(candidate, score, false)
+      ),
+    ]);
+  }
+
+  return index;
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { RelatedItem };
@@ -0,0 +1,207 @@
+/**
+ * Content Scaffolding Utilities
+ *
+ * Builds new writing and work MDX files from a few answers (title, tags,
+ * date, excerpt/description). Frontmatter is validated against the same
+ * schemas the content pipeline uses before anything is written.
+ *
+ * Used by `npm run new:post` / `npm run new:project`
+ * (`scripts/new-content.ts`).
+ */
+
+import type { Slug, TagId } from "@/types/index";
+import {
+  formatZodError,
+  safeValidateWorkProject,
+  safeValidateWritingPost,
+} from "@/schemas/content";
+import { validateTagIds } from "@/config/tags.config";
+import { toSlug } from "@/utils/format";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScaffoldType = "post" | "project";
+
+export interface ScaffoldInput {
+  readonly type: ScaffoldType;
+  readonly title: string;
+  readonly slug: string;
+  readonly tags: readonly string[];
+  /** Post publication date or project year */
+  readonly date: string;
+  /** Post excerpt or project description */
+  readonly summary: string;
+}
+
+export type ScaffoldResult =
+  | { readonly success: true; readonly path: string; readonly content: string }
+  | { readonly success: false; readonly error: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CONTENT_DIRS: Record<ScaffoldType, string> = {
+  post: "src/content/writing",
+  project: "src/content/work",
+};
+
+const BODY_TEMPLATES: Record<ScaffoldType, string> = {
+  post: "Start with the idea this post is about.\n\n## First Section\n",
+  project:
+    "What the project is and why it exists.\n\n## Overview\n\n## Technical Implementation\n\n## Results\n",
+};
+
+// ============================================================================
+// Input Helpers
+// ============================================================================
+
+/**
+ * Get the collection directory for a content type (relative to the
+ * project root)
+ */
+export function getContentDir(type: ScaffoldType): string {
+  return CONTENT_DIRS[type];
+}
+
+/**
+ * Get the MDX path for a new entry (relative to the project root)
+ */
+export function getScaffoldPath(type: ScaffoldType, slug: string): string {
+  return `${getContentDir(type)}/${slug}.mdx`;
+}
+
+/**
+ * Suggest a slug for a title
+ */
+export function suggestSlug(title: string): string {
+  return toSlug(title);
+}
+
+/**
+ * Split comma/space separated tag input into unique ids
+ */
+export function parseTagInput(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(/[\s,]+/)
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Normalize a date answer to a full ISO string (null if unparseable)
+ */
+export function parseDateInput(input: string): string | null {
+  const date = new Date(input.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ============================================================================
+// Frontmatter
+// ============================================================================
+
+/**
+ * Serialize frontmatter in the style of the existing content files
+ */
+function serializeFrontmatter(
+  data: Record<string, string | readonly string[] | boolean>
+): string {
+  const lines = Object.entries(data).map(([key, value]) => {
+    if (Array.isArray(value)) {
+      return `${key}: [${value.map((item) => JSON.stringify(item)).join(", ")}]`;
+    }
+    return `${key}: ${typeof value === "string" ? JSON.stringify(value) : value}`;
+  });
+
+  return `---\n${lines.join("\n")}\n---\n`;
+}
+
+/**
+ * Validate the entry with the full content schema, filling in the fields
+ * the pipeline computes (reading time, publish state, link)
+ */
+function validateScaffold(input: ScaffoldInput, tags: readonly TagId[]) {
+  const id = input.slug as Slug;
+
+  if (input.type === "post") {
+    return safeValidateWritingPost({
+      type: "post",
+      id,
+      slug: id,
+      title: input.title,
+      excerpt: input.summary,
+      description: input.summary,
+      date: input.date,
+      dateObj: new Date(input.date),
+      readTime: 1,
+      readingMinutes: 1,
+      tags,
+      draft: true,
+      published: false,
+    });
+  }
+
+  return safeValidateWorkProject({
+    type: "project",
+    id,
+    title: input.title,
+    description: input.summary,
+    year: input.date,
+    tags,
+    link: `/work/${id}`,
+    draft: true,
+    published: false,
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a new MDX file, refusing unknown tags and invalid frontmatter.
+ * New entries start as drafts.
+ */
+export function buildScaffold(input: ScaffoldInput): ScaffoldResult {
+  const { valid, invalid } = validateTagIds(input.tags);
+  if (invalid.length > 0) {
+    return {
+      success: false,
+      error: `Unknown tags: ${invalid.join(", ")}`,
+    };
+  }
+
+  const result = validateScaffold(input, valid);
+  if (!result.success) {
+    return { success: false, error: formatZodError(result.error) };
+  }
+
+  const frontmatter =
+    input.type === "post"
+      ? serializeFrontmatter({
+          title: input.title,
+          excerpt: input.summary,
+          date: input.date,
+          tags: valid,
+          draft: true,
+        })
+      : serializeFrontmatter({
+          title: input.title,
+          description: input.summary,
+          year: input.date,
+          tags: valid,
+          draft: true,
+        });
+
+  return {
+    success: true,
+    path: getScaffoldPath(input.type, input.slug),
+    content: `${frontmatter}\n${BODY_TEMPLATES[input.type]}`,
+  };
+}
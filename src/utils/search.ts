@@ -18,7 +18,6 @@ export const SEARCH_ATTRIBUTES = {
 
 const DEFAULT_RETRY_ATTEMPTS = 3;
 const DEFAULT_RETRY_DELAY = 1000;
-const DEFAULT_WORDS_PER_MINUTE = 200;
 
 // ============================================================================
 // Types
@@ -320,18 +319,6 @@ export function extractContentType(url: string): string {
   }
 }
 
-/**
- * Calculate reading time
- */
-export function calculateReadingTime(
-  content: string,
-  wordsPerMinute = DEFAULT_WORDS_PER_MINUTE
-): string {
-  const words = content.trim().split(/\s+/).length;
-  const minutes = Math.ceil(words / wordsPerMinute);
-  return `${minutes} min read`;
-}
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -6,6 +6,7 @@
  */
 
 import type { WritingPost } from "@/utils/content";
+import { resolveAuthor, type Author } from "@/utils/authors";
 import { SITE } from "@/config/site.config";
 
 // ============================================================================
@@ -26,6 +27,7 @@ export interface BlogPostSchema extends BaseStructuredData {
   author: {
     "@type": "Person";
     name: string;
+    url?: string;
   };
   image?: string;
 }
@@ -142,7 +144,8 @@ export function generateCanonicalURL(
 export function generateBlogStructuredData(
   posts: readonly WritingPost[],
   baseUrl: string | URL | undefined,
-  path = "/writing"
+  path = "/writing",
+  authors: readonly Author[] = []
 ): BlogStructuredData {
   try {
     const siteUrl = createURL(String(baseUrl), undefined);
@@ -152,6 +155,7 @@ export function generateBlogStructuredData(
 
     const blogPosts: BlogPostSchema[] = posts.slice(0, 10).map((post) => {
       const postUrl = validateURL(`${path}/${post.slug}`, siteUrl);
+      const author = resolveAuthor(post, authors);
 
       return {
         "@context": "https://schema.org",
@@ -162,7 +166,8 @@ export function generateBlogStructuredData(
         url: postUrl,
         author: {
           "@type": "Person",
-          name: SITE.name,
+          name: author.name,
+          url: validateURL(author.url ?? `/authors/${author.id}`, siteUrl),
         },
       };
     });
@@ -355,18 +360,6 @@ export function generateJSONLD<T extends BaseStructuredData>(data: T): string {
 // Content Utilities
 // ============================================================================
 
-/**
- * Calculate reading time
- */
-export function calculateReadingTime(
-  content: string,
-  wordsPerMinute = 200
-): string {
-  const words = content.trim().split(/\s+/).length;
-  const minutes = Math.ceil(words / wordsPerMinute);
-  return `${minutes} min read`;
-}
-
 /**
  * Generate meta description from content
  */
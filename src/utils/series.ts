@@ -0,0 +1,184 @@
+/**
+ * Series Utilities
+ *
+ * Groups writing posts into ordered multi-part series and resolves
+ * each post's position, neighbours and table of contents. An unknown
+ * series id or two posts claiming the same part fail the build.
+ */
+
+import type { CollectionEntry } from "astro:content";
+import type {
+  Series,
+  SeriesNavigation,
+  Slug,
+  WritingPost,
+} from "@/types/index";
+import { safeValidateSeries, formatZodError } from "@/schemas/content";
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+class SeriesReferenceError extends Error {
+  constructor(
+    message: string,
+    public readonly references: readonly string[]
+  ) {
+    super(message);
+    this.name = "SeriesReferenceError";
+  }
+}
+
+// ============================================================================
+// Series Processing
+// ============================================================================
+
+/**
+ * Process series entries with validation
+ */
+export function processSeries(
+  entries: readonly CollectionEntry<"series">[]
+): readonly Series[] {
+  const processed: Series[] = [];
+
+  for (const entry of entries) {
+    const result = safeValidateSeries({
+      id: entry.id,
+      title: entry.data.title,
+      description: entry.data.description,
+    });
+
+    if (result.success) {
+      processed.push(result.data);
+    } else {
+      console.error(
+        `[Series] Validation error for "${entry.id}":`,
+        formatZodError(result.error)
+      );
+    }
+  }
+
+  return processed.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+// ============================================================================
+// Series Queries
+// ============================================================================
+
+/**
+ * Get posts in a series, ordered by seriesOrder then publication date
+ */
+export function getSeriesPosts(
+  seriesId: Slug,
+  posts: readonly WritingPost[]
+): readonly WritingPost[] {
+  return posts
+    .filter((post) => post.series === seriesId)
+    .sort((a, b) => {
+      const orderA = a.seriesOrder ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.seriesOrder ?? Number.MAX_SAFE_INTEGER;
+      return orderA !== orderB
+        ? orderA - orderB
+        : a.dateObj.getTime() - b.dateObj.getTime();
+    });
+}
+
+/**
+ * Resolve a post's position within its series. Throws (failing the build)
+ * on an unknown series id.
+ */
+export function getSeriesNavigation(
+  post: { readonly id: string; readonly series?: Slug | undefined },
+  seriesList: readonly Series[],
+  posts: readonly WritingPost[]
+): SeriesNavigation | null {
+  if (!post.series) {
+    return null;
+  }
+
+  const series = seriesList.find((item) => item.id === post.series);
+  if (!series) {
+    const reference = `writing/${post.id}: Unknown series "${post.series}"`;
+    throw new SeriesReferenceError(`[Series] ${reference}`, [reference]);
+  }
+
+  const seriesPosts = getSeriesPosts(series.id, posts);
+  const index = seriesPosts.findIndex((item) => item.id === post.id);
+  if (index === -1) {
+    return null;
+  }
+
+  return {
+    series,
+    posts: seriesPosts,
+    part: index + 1,
+    total: seriesPosts.length,
+    previous: seriesPosts[index - 1],
+    next: seriesPosts[index + 1],
+  };
+}
+
+/**
+ * Validate the `series` and `seriesOrder` fields of every post: the series
+ * must exist and no two posts may share a part number within a series.
+ * Throws (failing the build) listing every problem.
+ */
+export function validateSeriesReferences(
+  entries: readonly {
+    readonly id: string;
+    readonly data: {
+      readonly series?: string | undefined;
+      readonly seriesOrder?: number | undefined;
+    };
+  }[],
+  seriesList: readonly Series[]
+): void {
+  const seriesIds = new Set<string>(seriesList.map((series) => series.id));
+  const parts = new Map<string, string>();
+  const errors: string[] = [];
+
+  for (const { id, data } of entries) {
+    if (!data.series) continue;
+
+    if (!seriesIds.has(data.series)) {
+      errors.push(`writing/${id}: Unknown series "${data.series}"`);
+    }
+
+    if (data.seriesOrder !== undefined) {
+      const key = `${data.series}:${data.seriesOrder}`;
+      const claimedBy = parts.get(key);
+
+      if (claimedBy) {
+        errors.push(
+          `writing/${id}: Duplicate part ${data.seriesOrder} in series "${data.series}" (also "${claimedBy}")`
+        );
+      } else {
+        parts.set(key, id);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new SeriesReferenceError(
+      `[Series] Invalid series references:\n  ${errors.join("\n  ")}`,
+      errors
+    );
+  }
+}
+
+/**
+ * Get series that contain at least one post
+ */
+export function getActiveSeries(
+  seriesList: readonly Series[],
+  posts: readonly WritingPost[]
+): readonly Series[] {
+  const used = new Set(posts.map((post) => post.series).filter(Boolean));
+  return seriesList.filter((series) => used.has(series.id));
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { Series, SeriesNavigation };
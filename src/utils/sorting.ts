@@ -0,0 +1,94 @@
+/**
+ * Sorting Utilities
+ *
+ * Sort options for the writing and work listings. Items carry the values
+ * they are sorted by as `data-<type>-<key>` attributes; `src/scripts/filter.ts`
+ * reorders them client-side and keeps the choice in `?sort=`.
+ *
+ * Options that don't apply to a listing are left out (reading time for
+ * work, featured for writing). Reading time is read from the
+ * `data-<type>-read-time` attribute set by `getFacetAttributes`.
+ */
+
+import type {
+  ContentType,
+  SortOption,
+  SortOrder,
+  WorkProject,
+  WritingPost,
+} from "@/types/index";
+import { CONTENT_TYPES } from "@/types/index";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type SortContent = WritingPost | WorkProject;
+
+interface SortDefinition extends SortOption {
+  /** Only offered when the listing contains this content type */
+  readonly contentType?: ContentType;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_SORT_ORDER: SortOrder = "newest";
+
+const SORT_DEFINITIONS: readonly SortDefinition[] = [
+  { id: "newest", label: "Newest" },
+  { id: "oldest", label: "Oldest" },
+  { id: "title", label: "Title A–Z" },
+  {
+    id: "reading-time",
+    label: "Shortest Read",
+    contentType: CONTENT_TYPES.POST,
+  },
+  { id: "featured", label: "Featured", contentType: CONTENT_TYPES.PROJECT },
+];
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Sort options that apply to a listing, default first
+ */
+export function getSortOptions(items: readonly SortContent[]): SortOption[] {
+  const types = new Set<ContentType>(items.map((item) => item.type));
+
+  return SORT_DEFINITIONS.filter(
+    ({ contentType }) => !contentType || types.has(contentType)
+  ).map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Data attributes an item needs for client-side sorting
+ * (e.g., `data-writing-date="2024-03-15"`)
+ */
+export function getSortAttributes(
+  type: string,
+  item: SortContent
+): Record<string, string> {
+  const prefix = `data-${type}`;
+
+  if (item.type === CONTENT_TYPES.POST) {
+    return {
+      [`${prefix}-date`]: item.date,
+      [`${prefix}-title`]: item.title,
+    };
+  }
+
+  return {
+    [`${prefix}-date`]: item.year,
+    [`${prefix}-title`]: item.title,
+    [`${prefix}-featured`]: String(item.featured),
+  };
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { SortOption, SortOrder };
@@ -0,0 +1,191 @@
+/**
+ * Tag Graph Utilities
+ *
+ * Builds the tag co-occurrence graph shown on `/tags/graph`: one node per
+ * tag in use and one edge per pair of tags that appear together on a
+ * post or project. Nodes and edges both count the tags entries list
+ * directly (parent tags are not expanded), so every node's size matches
+ * the edges it can have. Nodes are laid out at build time on a circle, grouped
+ * by category, with edges drawn as chords through the centre.
+ */
+
+import type {
+  Tag,
+  TagGraph,
+  TagGraphEdge,
+  TagGraphNode,
+  TagId,
+} from "@/types/index";
+import { getTagsByIds, sortTagsByCategory } from "@/config/tags.config";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** SVG viewBox width and height */
+const GRAPH_SIZE = 1000;
+
+/** Space kept around the circle for labels */
+const LABEL_SPACE = 230;
+
+const LABEL_OFFSET = 12;
+
+const NODE_RADIUS = { min: 6, max: 18 } as const;
+
+const EDGE_WIDTH = { min: 1.5, max: 8 } as const;
+
+// ============================================================================
+// Co-occurrence
+// ============================================================================
+
+/**
+ * Key for an unordered tag pair
+ */
+function toPairKey(a: TagId, b: TagId): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Count how many entries list each tag directly
+ */
+export function getTagCounts(
+  items: readonly { readonly tags: readonly TagId[] }[]
+): ReadonlyMap<TagId, number> {
+  const counts = new Map<TagId, number>();
+
+  for (const item of items) {
+    for (const tagId of new Set(item.tags)) {
+      counts.set(tagId, (counts.get(tagId) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Count how many entries use each pair of tags together
+ */
+export function getTagCooccurrence(
+  items: readonly { readonly tags: readonly TagId[] }[]
+): ReadonlyMap<string, { a: TagId; b: TagId; count: number }> {
+  const pairs = new Map<string, { a: TagId; b: TagId; count: number }>();
+
+  for (const item of items) {
+    const tags = [...new Set(item.tags)].sort();
+
+    tags.forEach((a, i) => {
+      for (const b of tags.slice(i + 1)) {
+        const key = toPairKey(a, b);
+        const pair = pairs.get(key) ?? { a, b, count: 0 };
+        pairs.set(key, { ...pair, count: pair.count + 1 });
+      }
+    });
+  }
+
+  return pairs;
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Scale a value in [0, max] to a range
+ */
+function scale(
+  value: number,
+  max: number,
+  range: { readonly min: number; readonly max: number }
+): number {
+  return max > 0
+    ? range.min + (range.max - range.min) * Math.sqrt(value / max)
+    : range.min;
+}
+
+/**
+ * Round coordinates so the rendered SVG stays compact
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Place tags evenly on a circle, starting at the top
+ */
+function layoutNodes(
+  tags: readonly Tag[],
+  usage: ReadonlyMap<TagId, number>
+): TagGraphNode[] {
+  const center = GRAPH_SIZE / 2;
+  const radius = center - LABEL_SPACE;
+  const maxCount = Math.max(0, ...tags.map((tag) => usage.get(tag.id) ?? 0));
+
+  return tags.map((tag, i) => {
+    const angle = (i / tags.length) * Math.PI * 2 - Math.PI / 2;
+    const count = usage.get(tag.id) ?? 0;
+    const nodeRadius = scale(count, maxCount, NODE_RADIUS);
+    const labelRadius = radius + nodeRadius + LABEL_OFFSET;
+
+    return {
+      tag,
+      count,
+      x: round(center + Math.cos(angle) * radius),
+      y: round(center + Math.sin(angle) * radius),
+      radius: round(nodeRadius),
+      labelX: round(center + Math.cos(angle) * labelRadius),
+      labelY: round(center + Math.sin(angle) * labelRadius),
+      labelAnchor: Math.cos(angle) >= -1e-9 ? "start" : "end",
+    };
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the co-occurrence graph for tagged items; nodes are sized by
+ * `getTagCounts`
+ */
+export function buildTagGraph(
+  items: readonly { readonly tags: readonly TagId[] }[]
+): TagGraph {
+  const usage = getTagCounts(items);
+  const tags = sortTagsByCategory(getTagsByIds([...usage.keys()]));
+  const nodes = layoutNodes(tags, usage);
+  const byId = new Map(nodes.map((node) => [node.tag.id, node]));
+  const pairs = [...getTagCooccurrence(items).values()];
+  const maxWeight = Math.max(0, ...pairs.map((pair) => pair.count));
+  const center = GRAPH_SIZE / 2;
+
+  const edges = pairs.flatMap(({ a, b, count }): TagGraphEdge[] => {
+    const source = byId.get(a);
+    const target = byId.get(b);
+    if (!source || !target) return [];
+
+    return [
+      {
+        source: a,
+        target: b,
+        weight: count,
+        path: `M ${source.x} ${source.y} Q ${center} ${center} ${target.x} ${target.y}`,
+        width: round(scale(count, maxWeight, EDGE_WIDTH)),
+      },
+    ];
+  });
+
+  // Heaviest edges last so they draw on top
+  edges.sort(
+    (a, b) =>
+      a.weight - b.weight ||
+      toPairKey(a.source, a.target).localeCompare(toPairKey(b.source, b.target))
+  );
+
+  return { size: GRAPH_SIZE, nodes, edges };
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type { TagGraph, TagGraphEdge, TagGraphNode };
@@ -0,0 +1,275 @@
+/**
+ * Tag Migration Utilities
+ *
+ * Source-level edits behind `npm run tags` (`scripts/tags.ts`): renaming,
+ * merging and deprecating entries in `TAG_REGISTRY`, and rewriting the
+ * `tags` frontmatter of content files. Old ids are kept as `aliases` on
+ * the surviving tag so existing references keep resolving.
+ *
+ * Every function takes file contents and returns the new contents, or
+ * throws a `TagMigrationError` when the edit is not possible.
+ */
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class TagMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TagMigrationError";
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+const INLINE_TAGS_PATTERN = /^tags:[ \t]*\[([^\]]*)\][ \t]*$/m;
+
+const BLOCK_TAGS_PATTERN = /^tags:[ \t]*\r?\n((?:[ \t]+-[ \t]*.*\r?\n?)+)/m;
+
+// ============================================================================
+// Registry Helpers
+// ============================================================================
+
+/**
+ * Registry object key for a tag id (quoted unless a plain identifier)
+ */
+function toRegistryKey(id: string): string {
+  return /^[a-z_$][\w$]*$/i.test(id) ? id : JSON.stringify(id);
+}
+
+/**
+ * Locate a tag's entry in the registry source
+ */
+function findRegistryEntry(
+  source: string,
+  id: string
+): { start: number; end: number; block: string } | null {
+  const key = `(?:${id.replace(/[-]/g, "\\-")}|"${id}"|'${id}')`;
+  const match = new RegExp(`^  ${key}: \\{\\n[\\s\\S]*?^  \\},?\\n`, "m").exec(
+    source
+  );
+  return match
+    ? {
+        start: match.index,
+        end: match.index + match[0].length,
+        block: match[0],
+      }
+    : null;
+}
+
+/**
+ * Read the aliases listed in a registry entry
+ */
+function getEntryAliases(block: string): string[] {
+  const match = /^ {4}aliases: \[([^\]]*)\],?\n/m.exec(block);
+  return match ? parseStringList(match[1] ?? "") : [];
+}
+
+/**
+ * Set (or insert) the aliases of a registry entry
+ */
+function setEntryAliases(block: string, aliases: readonly string[]): string {
+  const line = `    aliases: [${aliases.map((alias) => JSON.stringify(alias)).join(", ")}],\n`;
+  const existing = /^ {4}aliases: \[[^\]]*\],?\n/m;
+
+  return existing.test(block)
+    ? block.replace(existing, line)
+    : block.replace(/^ {2}\},?\n$/m, (closing) => `${line}${closing}`);
+}
+
+/**
+ * Parse a comma-separated list of (optionally quoted) strings
+ */
+function parseStringList(list: string): string[] {
+  return [...list.matchAll(/"([^"]*)"|'([^']*)'|([^,\s]+)/g)].map(
+    (match) => match[1] ?? match[2] ?? match[3] ?? ""
+  );
+}
+
+/**
+ * Point child tags whose `parent` is one id at another id
+ */
+function replaceRegistryParent(
+  source: string,
+  from: string,
+  to: string
+): string {
+  return source.replace(
+    new RegExp(`^( {4}parent: )["']${from.replace(/[-]/g, "\\-")}["']`, "gm"),
+    `$1${JSON.stringify(to)}`
+  );
+}
+
+/**
+ * Require a registry entry, throwing a readable error when missing
+ */
+function requireRegistryEntry(source: string, id: string) {
+  const entry = findRegistryEntry(source, id);
+  if (!entry) {
+    throw new TagMigrationError(`Tag "${id}" is not in TAG_REGISTRY`);
+  }
+  return entry;
+}
+
+// ============================================================================
+// Registry Edits
+// ============================================================================
+
+/**
+ * Rename a registry tag, keeping the old id (and its aliases) as aliases.
+ * Child tags follow the new id.
+ */
+export function renameRegistryTag(
+  source: string,
+  from: string,
+  to: string
+): string {
+  const entry = requireRegistryEntry(source, from);
+  if (findRegistryEntry(source, to)) {
+    throw new TagMigrationError(
+      `Tag "${to}" already exists; use merge instead`
+    );
+  }
+
+  const aliases = [...new Set([...getEntryAliases(entry.block), from])].filter(
+    (alias) => alias !== to
+  );
+  const block = setEntryAliases(
+    entry.block
+      .replace(/^ {2}\S+: \{/m, `  ${toRegistryKey(to)}: {`)
+      .replace(/^( {4}id: )["'][^"']+["']/m, `$1${JSON.stringify(to)}`),
+    aliases
+  );
+
+  return replaceRegistryParent(
+    source.slice(0, entry.start) + block + source.slice(entry.end),
+    from,
+    to
+  );
+}
+
+/**
+ * Merge one registry tag into another: the source entry is removed, its
+ * id and aliases become aliases of the target, and its children move to
+ * the target
+ */
+export function mergeRegistryTag(
+  source: string,
+  from: string,
+  into: string
+): string {
+  if (from === into) {
+    throw new TagMigrationError("Cannot merge a tag into itself");
+  }
+
+  const fromEntry = requireRegistryEntry(source, from);
+  const withoutFrom =
+    source.slice(0, fromEntry.start) + source.slice(fromEntry.end);
+  const intoEntry = requireRegistryEntry(withoutFrom, into);
+
+  const aliases = [
+    ...new Set([
+      ...getEntryAliases(intoEntry.block),
+      ...getEntryAliases(fromEntry.block),
+      from,
+    ]),
+  ];
+  // A child merged with its parent takes over the parent's place
+  const block = setEntryAliases(
+    intoEntry.block.replace(
+      new RegExp(
+        `^ {4}parent: ["']${from.replace(/[-]/g, "\\-")}["'].*\n`,
+        "m"
+      ),
+      ""
+    ),
+    aliases
+  );
+
+  return replaceRegistryParent(
+    withoutFrom.slice(0, intoEntry.start) +
+      block +
+      withoutFrom.slice(intoEntry.end),
+    from,
+    into
+  );
+}
+
+/**
+ * Mark a registry tag as deprecated
+ */
+export function deprecateRegistryTag(source: string, id: string): string {
+  const entry = requireRegistryEntry(source, id);
+  if (/^ {4}deprecated: true,?\n/m.test(entry.block)) {
+    return source;
+  }
+
+  const block = entry.block.replace(
+    /^ {2}\},?\n$/m,
+    (closing) => `    deprecated: true,\n${closing}`
+  );
+  return source.slice(0, entry.start) + block + source.slice(entry.end);
+}
+
+// ============================================================================
+// Content Edits
+// ============================================================================
+
+/**
+ * Replace a tag in an entry's `tags` frontmatter (inline or block list).
+ * Returns null when the entry does not use the tag.
+ */
+export function rewriteFrontmatterTags(
+  source: string,
+  from: string,
+  to: string
+): string | null {
+  const frontmatter = FRONTMATTER_PATTERN.exec(source);
+  if (!frontmatter) return null;
+
+  const replaceTags = (tags: readonly string[]) =>
+    tags.includes(from)
+      ? [...new Set(tags.map((tag) => (tag === from ? to : tag)))]
+      : null;
+
+  const yaml = frontmatter[1] ?? "";
+  let updated: string | null = null;
+
+  const inline = INLINE_TAGS_PATTERN.exec(yaml);
+  const block = BLOCK_TAGS_PATTERN.exec(yaml);
+
+  if (inline) {
+    const tags = replaceTags(parseStringList(inline[1] ?? ""));
+    if (tags) {
+      updated = yaml.replace(
+        INLINE_TAGS_PATTERN,
+        `tags: [${tags.map((tag) => JSON.stringify(tag)).join(", ")}]`
+      );
+    }
+  } else if (block) {
+    const items = (block[1] ?? "")
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) =>
+        line.replace(/^[ \t]+-[ \t]*/, "").replace(/^["']|["']$/g, "")
+      );
+    const tags = replaceTags(items);
+    if (tags) {
+      const trailing = block[0].endsWith("\n") ? "\n" : "";
+      updated = yaml.replace(
+        BLOCK_TAGS_PATTERN,
+        `tags:\n${tags.map((tag) => `  - ${JSON.stringify(tag)}`).join("\n")}${trailing}`
+      );
+    }
+  }
+
+  if (updated === null) return null;
+
+  const start = source.indexOf(yaml);
+  return source.slice(0, start) + updated + source.slice(start + yaml.length);
+}
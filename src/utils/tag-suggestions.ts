@@ -0,0 +1,348 @@
+/**
+ * Tag Suggestion Utilities
+ *
+ * Local keyword extraction over writing and work entries. Each entry's
+ * MDX body is scored with TF-IDF against the whole corpus (reusing the
+ * related-content text pipeline); its top keywords are matched to tag
+ * labels, ids, aliases and descriptions in `TAG_REGISTRY`.
+ *
+ * Produces two lists: likely missing tags per entry, and recurring
+ * keywords that no registry tag covers (candidates for new tags).
+ *
+ * Used by `npm run tags:suggest` (`scripts/suggest-tags.ts`).
+ */
+
+import type { Tag, TagId } from "@/types/index";
+import {
+  getAllTags,
+  getTagAncestorIds,
+  resolveTagId,
+} from "@/config/tags.config";
+import { buildTfIdfVectors, tokenize } from "@/utils/related";
+import { extractPlainText } from "@/utils/text";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TagSuggestionEntry {
+  /** Content key ("writing/<id>" or "work/<id>") */
+  readonly key: string;
+  readonly file: string;
+  readonly title: string;
+  /** Excerpt or description */
+  readonly summary: string;
+  readonly body: string;
+  readonly tags: readonly string[];
+}
+
+export interface TagSuggestionOptions {
+  /** Keywords kept per entry (highest TF-IDF first) */
+  readonly keywordsPerEntry: number;
+  /** Times a term must occur in an entry to count as a keyword */
+  readonly minOccurrences: number;
+  /** Missing tags reported per entry */
+  readonly maxSuggestions: number;
+  /** Entries a keyword must appear in to be proposed as a new tag */
+  readonly minEntriesForNewTag: number;
+  /** New tags reported in total */
+  readonly maxNewTags: number;
+}
+
+export interface Keyword {
+  readonly term: string;
+  readonly weight: number;
+}
+
+export interface MissingTagSuggestion {
+  readonly tagId: TagId;
+  readonly label: string;
+  readonly score: number;
+  /** Keywords that matched the tag */
+  readonly terms: readonly string[];
+}
+
+export interface EntryTagSuggestions {
+  readonly key: string;
+  readonly file: string;
+  readonly keywords: readonly Keyword[];
+  readonly missing: readonly MissingTagSuggestion[];
+}
+
+export interface NewTagSuggestion {
+  readonly term: string;
+  readonly score: number;
+  /** Keys of the entries the keyword stands out in */
+  readonly entries: readonly string[];
+}
+
+export interface TagSuggestionReport {
+  readonly entries: readonly EntryTagSuggestions[];
+  readonly newTags: readonly NewTagSuggestion[];
+}
+
+interface TagProfile {
+  readonly tag: Tag;
+  /** Label, id and aliases as term lists; all terms of one must match */
+  readonly names: readonly (readonly string[])[];
+  readonly descriptionTerms: readonly string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TAG_SUGGESTION_OPTIONS: TagSuggestionOptions = {
+  keywordsPerEntry: 20,
+  minOccurrences: 2,
+  maxSuggestions: 3,
+  minEntriesForNewTag: 2,
+  maxNewTags: 10,
+};
+
+/** Description matches count for less than name matches */
+const DESCRIPTION_WEIGHT = 0.5;
+
+/** Description-only matches need this many keywords */
+const MIN_DESCRIPTION_TERMS = 2;
+
+// ============================================================================
+// Text Processing
+// ============================================================================
+
+/**
+ * Fold simple plurals so "systems" matches "system"
+ */
+function normalizeTerm(term: string): string {
+  return term.length > 4 && term.endsWith("s") && !term.endsWith("ss")
+    ? term.slice(0, -1)
+    : term;
+}
+
+/**
+ * Tokenize and normalize text for matching
+ */
+function toTerms(text: string): string[] {
+  return tokenize(text).map(normalizeTerm);
+}
+
+/**
+ * Top TF-IDF terms of an entry that occur often enough to be keywords
+ */
+function extractKeywords(
+  terms: readonly string[],
+  vector: ReadonlyMap<string, number>,
+  options: TagSuggestionOptions
+): Keyword[] {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+
+  return [...vector]
+    .filter(([term]) => (counts.get(term) ?? 0) >= options.minOccurrences)
+    .sort(([a, wa], [b, wb]) => wb - wa || a.localeCompare(b))
+    .slice(0, options.keywordsPerEntry)
+    .map(([term, weight]) => ({ term, weight }));
+}
+
+// ============================================================================
+// Tag Matching
+// ============================================================================
+
+/**
+ * Label, id and aliases of a tag as term lists
+ */
+function getTagNames(tag: Tag): string[][] {
+  return [
+    tag.label,
+    tag.id.replace(/-/g, " "),
+    ...(tag.aliases ?? []).map((alias) => alias.replace(/-/g, " ")),
+  ]
+    .map(toTerms)
+    .filter((terms) => terms.length > 0);
+}
+
+/**
+ * Term lists used to match each registry tag. Description terms that name
+ * any tag ("design", "system") are left to the name match.
+ */
+function buildTagProfiles(tags: readonly Tag[]): TagProfile[] {
+  const names = tags.map(getTagNames);
+  const nameTerms = new Set(names.flat(2));
+
+  return tags.map((tag, i) => ({
+    tag,
+    names: names[i] ?? [],
+    descriptionTerms: [...new Set(toTerms(tag.description ?? ""))].filter(
+      (term) => !nameTerms.has(term)
+    ),
+  }));
+}
+
+/**
+ * Score a tag against an entry's keywords (null when it does not match)
+ */
+function scoreTag(
+  profile: TagProfile,
+  keywords: ReadonlyMap<string, number>
+): MissingTagSuggestion | null {
+  const names = profile.names.filter((terms) =>
+    terms.every((term) => keywords.has(term))
+  );
+  const nameTerms = [...new Set(names.flat())];
+  const descriptionTerms = profile.descriptionTerms.filter((term) =>
+    keywords.has(term)
+  );
+
+  if (
+    nameTerms.length === 0 &&
+    descriptionTerms.length < MIN_DESCRIPTION_TERMS
+  ) {
+    return null;
+  }
+
+  const weightOf = (term: string) => keywords.get(term) ?? 0;
+  const score =
+    nameTerms.reduce((sum, term) => sum + weightOf(term), 0) +
+    descriptionTerms.reduce(
+      (sum, term) => sum + weightOf(term) * DESCRIPTION_WEIGHT,
+      0
+    );
+
+  return {
+    tagId: profile.tag.id,
+    label: profile.tag.label,
+    score,
+    terms: [...nameTerms, ...descriptionTerms],
+  };
+}
+
+/**
+ * Tags an entry already has, including the parents they roll up into
+ */
+function getCoveredTags(tags: readonly string[]): Set<TagId> {
+  return new Set(
+    tags.flatMap((tag) => {
+      const id = resolveTagId(tag as TagId);
+      return id ? [id, ...getTagAncestorIds(id)] : [];
+    })
+  );
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Suggest missing registry tags per entry and new tags for recurring
+ * keywords the registry does not cover
+ */
+export function suggestTags(
+  entries: readonly TagSuggestionEntry[],
+  options: TagSuggestionOptions = DEFAULT_TAG_SUGGESTION_OPTIONS
+): TagSuggestionReport {
+  const documents = entries.map((entry) =>
+    toTerms(
+      [
+        entry.title,
+        entry.title,
+        entry.summary,
+        extractPlainText(entry.body),
+      ].join(" ")
+    )
+  );
+  const vectors = buildTfIdfVectors(documents);
+  const profiles = buildTagProfiles(
+    getAllTags().filter((tag) => !tag.deprecated)
+  );
+  const registryTerms = new Set(
+    profiles.flatMap((profile) => [
+      ...profile.names.flat(),
+      ...profile.descriptionTerms,
+    ])
+  );
+
+  const keywordEntries = new Map<string, { score: number; keys: string[] }>();
+
+  const results = entries.map((entry, i): EntryTagSuggestions => {
+    const keywords = extractKeywords(
+      documents[i] ?? [],
+      vectors[i] ?? new Map(),
+      options
+    );
+    const keywordWeights = new Map(
+      keywords.map((keyword) => [keyword.term, keyword.weight])
+    );
+    const covered = getCoveredTags(entry.tags);
+
+    const missing = profiles
+      .filter((profile) => !covered.has(profile.tag.id))
+      .map((profile) => scoreTag(profile, keywordWeights))
+      .filter((match): match is MissingTagSuggestion => match !== null)
+      .sort((a, b) => b.score - a.score || a.tagId.localeCompare(b.tagId))
+      .slice(0, options.maxSuggestions);
+
+    for (const { term, weight } of keywords) {
+      if (registryTerms.has(term)) continue;
+      const stats = keywordEntries.get(term) ?? { score: 0, keys: [] };
+      keywordEntries.set(term, {
+        score: stats.score + weight,
+        keys: [...stats.keys, entry.key],
+      });
+    }
+
+    return { key: entry.key, file: entry.file, keywords, missing };
+  });
+
+  const newTags = [...keywordEntries]
+    .filter(([, { keys }]) => keys.length >= options.minEntriesForNewTag)
+    .map(([term, { score, keys }]) => ({ term, score, entries: keys }))
+    .sort(
+      (a, b) =>
+        b.entries.length - a.entries.length ||
+        b.score - a.score ||
+        a.term.localeCompare(b.term)
+    )
+    .slice(0, options.maxNewTags);
+
+  return { entries: results, newTags };
+}
+
+/**
+ * Format a report for the terminal
+ */
+export function formatTagSuggestionReport(report: TagSuggestionReport): string {
+  const entrySections = report.entries
+    .filter((entry) => entry.missing.length > 0)
+    .map((entry) =>
+      [
+        entry.file,
+        ...entry.missing.map(
+          (suggestion) =>
+            `  ${suggestion.tagId.padEnd(20)} ${suggestion.score.toFixed(3)}  (${suggestion.terms.join(", ")})`
+        ),
+      ].join("\n")
+    );
+
+  const newTagSection =
+    report.newTags.length > 0
+      ? [
+          "New tag candidates",
+          ...report.newTags.map(
+            (suggestion) =>
+              `  ${suggestion.term.padEnd(20)} ${suggestion.entries.length} entries  (${suggestion.entries.join(", ")})`
+          ),
+        ].join("\n")
+      : "";
+
+  const suggested = report.entries.reduce(
+    (sum, entry) => sum + entry.missing.length,
+    0
+  );
+  const summary = `${report.entries.length} entries, ${suggested} missing tag suggestions, ${report.newTags.length} new tag candidates`;
+
+  return [...entrySections, newTagSection, summary]
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,30 @@
+/**
+ * Text Utilities
+ *
+ * Plain-text helpers for raw MDX bodies, shared by reading time, related
+ * content and tag suggestions.
+ */
+
+// ============================================================================
+// MDX Text
+// ============================================================================
+
+/**
+ * Blank out fenced and inline code
+ */
+export function stripCode(mdx: string): string {
+  return mdx.replace(/```[\s\S]*?```/g, " ").replace(/`[^`]*`/g, " ");
+}
+
+/**
+ * Strip MDX syntax (code, imports, JSX, link targets) to plain prose
+ */
+export function extractPlainText(mdx: string): string {
+  return stripCode(mdx)
+    .replace(/^\s*(?:import|export)\s.*$/gm, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_~|-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,70 @@
+/**
+ * Table of Contents Utilities
+ *
+ * Builds a nested table of contents from the flat heading list returned
+ * by `render()` for MDX entries.
+ */
+
+import type { MarkdownHeading } from "astro";
+import { CONTENT_CONFIG } from "@/config/site.config";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TocOptions {
+  readonly minDepth: number;
+  readonly maxDepth: number;
+  readonly minHeadings: number;
+}
+
+export interface TocEntry {
+  readonly depth: number;
+  readonly slug: string;
+  readonly text: string;
+  readonly children: TocEntry[];
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a nested table of contents from rendered headings.
+ * Returns an empty list when the entry has too few headings to need one.
+ */
+export function buildTableOfContents(
+  headings: readonly MarkdownHeading[],
+  options: TocOptions = CONTENT_CONFIG.toc
+): TocEntry[] {
+  const included = headings.filter(
+    (heading) =>
+      heading.depth >= options.minDepth && heading.depth <= options.maxDepth
+  );
+
+  if (included.length < options.minHeadings) {
+    return [];
+  }
+
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of included) {
+    const entry: TocEntry = {
+      depth: heading.depth,
+      slug: heading.slug,
+      text: heading.text,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1]!.depth >= entry.depth) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : root).push(entry);
+    stack.push(entry);
+  }
+
+  return root;
+}
@@ -251,6 +251,13 @@ export function scrollToTop(behavior: ScrollBehavior = "smooth"): void {
   window.scrollTo({ top: 0, behavior });
 }
 
+/**
+ * Whether the user asked the OS for reduced motion
+ */
+export function prefersReducedMotion(): boolean {
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
 /**
  * Get scroll position
  */